@@ -0,0 +1,48 @@
+import path from "node:path";
+import type { ThreadEvent, ThreadOptions } from "@openai/codex-sdk";
+import { createCodexBackend } from "./codexBackend.js";
+import { createReplayBackend } from "./replayBackend.js";
+import { createScriptedBackend } from "./scriptedBackend.js";
+
+// The slice of the Codex SDK's `Thread` the loop relies on, so other agents can stand in for it.
+export type AgentThread = {
+  // Known once the first turn has started.
+  readonly id: string | null;
+  runStreamed: (input: string) => Promise<{ events: AsyncGenerator<ThreadEvent> }>;
+};
+
+export type AgentBackend = {
+  name: string;
+  startThread: (options: ThreadOptions) => AgentThread;
+  resumeThread: (id: string, options: ThreadOptions) => AgentThread;
+};
+
+export type BackendContext = {
+  // Where the loop keeps the plan, for backends that edit it themselves.
+  planPath?: string;
+  // Agent turns the session has already taken, when resuming.
+  turnsPlayed?: number;
+};
+
+export const DEFAULT_BACKEND = "codex";
+const SCRIPTED_PREFIX = "scripted:";
+export const REPLAY_PREFIX = "replay:";
+
+// `codex`, `scripted:<fixture file>` or `replay:<recording file>`; the file path comes back absolute.
+export function parseBackendSpec(value: string, baseDir = process.cwd()): string {
+  const spec = value.trim();
+  if (spec === DEFAULT_BACKEND) return spec;
+  for (const prefix of [SCRIPTED_PREFIX, REPLAY_PREFIX]) {
+    if (spec.startsWith(prefix) && spec.length > prefix.length) {
+      return `${prefix}${path.resolve(baseDir, spec.slice(prefix.length))}`;
+    }
+  }
+  throw new Error(`Unknown backend "${value}" (expected codex, scripted:<fixture.json> or replay:<recording.jsonl>)`);
+}
+
+export function createAgentBackend(spec: string | undefined, context: BackendContext = {}): AgentBackend {
+  const parsed = parseBackendSpec(spec ?? DEFAULT_BACKEND);
+  if (parsed === DEFAULT_BACKEND) return createCodexBackend();
+  if (parsed.startsWith(REPLAY_PREFIX)) return createReplayBackend(parsed.slice(REPLAY_PREFIX.length), context);
+  return createScriptedBackend(parsed.slice(SCRIPTED_PREFIX.length), context);
+}
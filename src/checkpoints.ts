@@ -0,0 +1,26 @@
+import fs from "node:fs";
+import path from "node:path";
+import { checkoutSessionBranch, isAncestor, resetHard } from "./git.js";
+import { readIteration } from "./iterations.js";
+import { sessionDataDir, type SessionRecord } from "./sessions.js";
+
+// Resets the workdir to an iteration's checkpoint and restores the plan as it was then,
+// so a resumed run carries on from that point.
+export function rollbackToCheckpoint(session: SessionRecord, iteration: number): string {
+  if (!session.gitCheckpoints || !session.branch) throw new Error("Session has no git checkpoints");
+  const sha = session.checkpoints?.find((c) => c.iteration === iteration)?.sha;
+  if (!sha) throw new Error(`No checkpoint for iteration ${iteration}`);
+  // Only commits of this session's own branch; anything else would reset the workdir to another session's work.
+  if (!isAncestor(session.workdir, sha, session.branch)) {
+    throw new Error(`Checkpoint ${sha} of iteration ${iteration} is not on ${session.branch}`);
+  }
+
+  checkoutSessionBranch(session.workdir, session.branch);
+  resetHard(session.workdir, sha);
+  const plan = readIteration(sessionDataDir(session), iteration)?.plan;
+  if (plan != null) {
+    fs.writeFileSync(path.join(session.stateDir, "IMPLEMENTATION_PLAN.md"), plan, "utf8");
+  }
+  session.rolledBackTo = iteration;
+  return sha;
+}
@@ -1,38 +1,135 @@
 #!/usr/bin/env node
+import fs from "node:fs";
 import path from "node:path";
+import { randomUUID } from "node:crypto";
 import open from "open";
 import { printMilhouseHeader } from "./banner.js";
+import { describeLoopEvent, parseLoopEvent } from "./loopEvents.js";
+import {
+  exitCodeForStatus,
+  matchThreadId,
+  onLines,
+  readLoopOutcome,
+  resolveRuntimeRoot,
+  sessionStatusFromExit,
+  spawnLoopRunner,
+  stallKeyForFlag,
+} from "./loopProcess.js";
+import { DEFAULT_BACKEND, parseBackendSpec } from "./agentBackend.js";
+import { describeConfig, resolveConfig, type MilhouseConfig } from "./config.js";
+import { sendNotifications } from "./notify.js";
+import { archiveFileName, exportSession, importSession, resolveSessionId } from "./sessionArchive.js";
+import { resolveStateBaseDir } from "./paths.js";
+import { recordingPath, replaySettings, replayWorkdir } from "./recording.js";
+import { parseParallelLimit } from "./parallel.js";
+import { loadPipelineFile } from "./pipeline.js";
+import { applyPolicyFlag, type AgentPolicy } from "./policy.js";
+import { parseVarAssignment, type TemplateVars } from "./prompts.js";
+import {
+  appendSessionLog,
+  resolveSessionStateDir,
+  sessionBranchName,
+  sessionDataDir,
+  syncSessionFromState,
+  upsertSession,
+  type SessionRecord,
+} from "./sessions.js";
+import type { StallThresholds } from "./stall.js";
+import type { BudgetLimits } from "./usage.js";
 import { startServer } from "../ui/server.js";
 
+// `config` holds only what was given on the command line; it is layered over config files and env.
 type UiOptions = {
-  host: string;
-  port: number;
   workdir: string;
-  stateDir?: string;
   openBrowser: boolean;
+  auth: boolean;
+  priceTable?: string;
+  config: MilhouseConfig;
+};
+
+type RunOptions = {
+  goal: string;
+  workdir: string;
+  createIfMissing: boolean;
+  budget: BudgetLimits;
+  priceTable?: string;
+  gitCheckpoints: boolean;
+  completionSignal?: string;
+  stall: Partial<StallThresholds>;
+  config: MilhouseConfig;
+  record: boolean;
+  replayOf?: string;
+  reviewPlan?: boolean;
+  pauseEvery?: number;
+};
+
+type ConfigShowOptions = {
+  workdir: string;
+  json: boolean;
+};
+
+// `target` is the session id for export and replay, and the archive path for import.
+type ArchiveOptions = {
+  target: string;
+  out?: string;
+  stateDir?: string;
 };
 
 function printHelp(): void {
   const help = [
     "Usage:",
-    "  milhouse ui [--workdir <path>] [--port <n>] [--host <ip>] [--state-dir <path>] [--no-open]",
+    "  milhouse ui [--workdir <path>] [--port <n>] [--host <ip>] [--state-dir <path>] [--price-table <file>]",
+    "              [--prompts-dir <path>] [--pipeline <file>] [--parallel <n>] [--backend <spec>] [--no-open] [--no-auth]",
+    "  milhouse run --goal <text> [--workdir <path>] [--max-iterations <n>] [--state-dir <path>] [--create]",
+    "               [--max-input-tokens <n>] [--max-output-tokens <n>] [--max-cost <usd>] [--price-table <file>]",
+    "               [--git-checkpoints] [--verify-command <cmd>] [--verify-timeout <sec>] [--var NAME=value ...]",
+    "               [--completion-signal <text>] [--stall-plan-unchanged <n>] [--stall-no-changes <n>]",
+    "               [--stall-repeated-response <n>] [--stall-checklist-growth <n>] [--prompts-dir <path>]",
+    "               [--pipeline <file>] [--parallel <n>] [--backend <spec>] [--record] [--review-plan]",
+    "               [--pause-every <n>]",
+    "  milhouse replay <sessionId> [--state-dir <path>]",
+    "  milhouse config show [--workdir <path>] [--json]",
+    "  milhouse export <sessionId> [--out <file>] [--state-dir <path>]",
+    "  milhouse import <file> [--state-dir <path>]",
+    "",
+    "Agent policy (ui defaults or run; prefix with plan- or build- to set one phase, e.g. --plan-sandbox):",
+    "  --sandbox <read-only|workspace-write|danger-full-access>  --approval <never|on-request|on-failure|untrusted>",
+    "  --network <on|off>  --web-search <on|off>",
+    "",
+    "The ui prints a URL carrying an access token (MILHOUSE_TOKEN to fix it); --no-auth is only allowed on loopback hosts.",
+    "--backend is codex (default) or scripted:<fixture.json>, which replays scripted turns offline.",
+    "--record saves every agent turn; `milhouse replay` re-runs the loop on them without calling Codex.",
+    "",
+    "Exit codes (run):",
+    "  0 plan marked DONE (or completion signal seen), 1 failed, 2 reached max iterations, 3 budget exhausted,",
+    "  4 stalled, 5 awaiting approval, 130 stopped",
     "",
     "Examples:",
     "  milhouse ui --workdir .",
     "  milhouse ui --port 4173",
+    "  milhouse config show --workdir .",
+    "  milhouse export 3f2a9c1e --out run.json.gz",
+    "  milhouse replay 3f2a9c1e",
+    "  milhouse run --goal \"Add a README\" --workdir . --max-iterations 5",
+    "  milhouse run --goal \"Add a README\" --plan-sandbox read-only --build-network on",
   ];
   process.stdout.write(`${help.join("\n")}\n`);
 }
 
 function parseUiOptions(argv: string[]): UiOptions {
-  let host = "127.0.0.1";
-  let port = 4173;
   let workdir = process.cwd();
-  let stateDir: string | undefined;
   let openBrowser = true;
+  let auth = true;
+  let priceTable: string | undefined;
+  const config: MilhouseConfig = {};
+  const policy: AgentPolicy = {};
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
+    if (applyPolicyFlag(policy, arg, argv[i + 1])) {
+      i += 1;
+      continue;
+    }
     switch (arg) {
       case "--help":
       case "-h":
@@ -41,7 +138,7 @@ function parseUiOptions(argv: string[]): UiOptions {
       case "--host": {
         const value = argv[i + 1];
         if (!value) throw new Error("Missing value for --host");
-        host = value;
+        config.host = value;
         i += 1;
         break;
       }
@@ -49,8 +146,10 @@ function parseUiOptions(argv: string[]): UiOptions {
       case "-p": {
         const value = argv[i + 1];
         if (!value) throw new Error("Missing value for --port");
-        port = Number(value);
-        if (!Number.isFinite(port) || port < 0 || port > 65535) throw new Error(`Invalid port: ${value}`);
+        config.port = Number(value);
+        if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+          throw new Error(`Invalid port: ${value}`);
+        }
         i += 1;
         break;
       }
@@ -65,7 +164,46 @@ function parseUiOptions(argv: string[]): UiOptions {
       case "--state-dir": {
         const value = argv[i + 1];
         if (!value) throw new Error("Missing value for --state-dir");
-        stateDir = path.resolve(value);
+        config.stateDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--prompts-dir": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --prompts-dir");
+        config.promptsDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--pipeline": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --pipeline");
+        config.pipeline = loadPipelineFile(path.resolve(value));
+        i += 1;
+        break;
+      }
+      case "--parallel": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --parallel");
+        try {
+          config.parallel = parseParallelLimit(value);
+        } catch (err) {
+          throw new Error(`Invalid --parallel: ${(err as Error).message}`);
+        }
+        i += 1;
+        break;
+      }
+      case "--backend": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --backend");
+        config.backend = parseBackendSpec(value);
+        i += 1;
+        break;
+      }
+      case "--price-table": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --price-table");
+        priceTable = path.resolve(value);
         i += 1;
         break;
       }
@@ -75,12 +213,442 @@ function parseUiOptions(argv: string[]): UiOptions {
       case "--no-open":
         openBrowser = false;
         break;
+      case "--no-auth":
+        auth = false;
+        break;
       default:
         throw new Error(`Unknown arg: ${arg}`);
     }
   }
 
-  return { host, port, workdir, stateDir, openBrowser };
+  if (Object.keys(policy).length) config.policy = policy;
+  return { workdir, openBrowser, auth, priceTable, config };
+}
+
+function parseLimit(flag: string, value: string | undefined): number {
+  if (!value) throw new Error(`Missing value for ${flag}`);
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`Invalid ${flag}: ${value}`);
+  return parsed;
+}
+
+function parseRunOptions(argv: string[]): RunOptions {
+  let goal = "";
+  let workdir = process.cwd();
+  let createIfMissing = false;
+  let gitCheckpoints = false;
+  let priceTable: string | undefined;
+  let record = false;
+  let reviewPlan = false;
+  let pauseEvery: number | undefined;
+  const config: MilhouseConfig = {};
+  const budget: BudgetLimits = {};
+  const vars: TemplateVars = {};
+  let completionSignal: string | undefined;
+  const stall: Partial<StallThresholds> = {};
+  const policy: AgentPolicy = {};
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (applyPolicyFlag(policy, arg, argv[i + 1])) {
+      i += 1;
+      continue;
+    }
+    const stallKey = stallKeyForFlag(arg);
+    if (stallKey) {
+      const value = parseLimit(arg, argv[i + 1]);
+      if (!Number.isInteger(value)) throw new Error(`Invalid ${arg}: ${argv[i + 1]}`);
+      stall[stallKey] = value;
+      i += 1;
+      continue;
+    }
+    switch (arg) {
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+      case "--completion-signal": {
+        const value = argv[i + 1];
+        if (!value?.trim()) throw new Error("Missing value for --completion-signal");
+        completionSignal = value;
+        i += 1;
+        break;
+      }
+      case "--var": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --var");
+        const [key, val] = parseVarAssignment(value);
+        vars[key] = val;
+        i += 1;
+        break;
+      }
+      case "--goal":
+      case "-g": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --goal");
+        goal = value;
+        i += 1;
+        break;
+      }
+      case "--max-iterations":
+      case "-n": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --max-iterations");
+        config.maxIterations = Number(value);
+        if (!Number.isInteger(config.maxIterations) || config.maxIterations < 0) {
+          throw new Error(`Invalid max iterations: ${value}`);
+        }
+        i += 1;
+        break;
+      }
+      case "--workdir":
+      case "-w": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --workdir");
+        workdir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--state-dir": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --state-dir");
+        config.stateDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--create":
+        createIfMissing = true;
+        break;
+      case "--git-checkpoints":
+        gitCheckpoints = true;
+        break;
+      case "--review-plan":
+        reviewPlan = true;
+        break;
+      case "--pause-every": {
+        const value = parseLimit(arg, argv[i + 1]);
+        if (!Number.isInteger(value)) throw new Error(`Invalid ${arg}: ${argv[i + 1]}`);
+        pauseEvery = value || undefined;
+        i += 1;
+        break;
+      }
+      case "--record":
+        record = true;
+        break;
+      case "--verify-command": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --verify-command");
+        config.verifyCommand = value;
+        i += 1;
+        break;
+      }
+      case "--verify-timeout":
+        config.verifyTimeoutSec = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--max-input-tokens":
+        budget.maxInputTokens = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--max-output-tokens":
+        budget.maxOutputTokens = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--max-cost":
+        budget.maxCostUsd = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--prompts-dir": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --prompts-dir");
+        config.promptsDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--pipeline": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --pipeline");
+        config.pipeline = loadPipelineFile(path.resolve(value));
+        i += 1;
+        break;
+      }
+      case "--parallel": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --parallel");
+        try {
+          config.parallel = parseParallelLimit(value);
+        } catch (err) {
+          throw new Error(`Invalid --parallel: ${(err as Error).message}`);
+        }
+        i += 1;
+        break;
+      }
+      case "--backend": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --backend");
+        config.backend = parseBackendSpec(value);
+        i += 1;
+        break;
+      }
+      case "--price-table": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --price-table");
+        priceTable = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default:
+        throw new Error(`Unknown arg: ${arg}`);
+    }
+  }
+
+  if (!goal.trim()) throw new Error("--goal is required");
+  if (Object.keys(vars).length) config.vars = vars;
+  if (Object.keys(policy).length) config.policy = policy;
+  return {
+    goal,
+    workdir,
+    createIfMissing,
+    budget,
+    priceTable,
+    gitCheckpoints,
+    completionSignal,
+    stall,
+    config,
+    record,
+    reviewPlan,
+    pauseEvery,
+  };
+}
+
+function parseConfigShowOptions(argv: string[]): ConfigShowOptions {
+  let workdir = process.cwd();
+  let json = false;
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--workdir":
+      case "-w": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --workdir");
+        workdir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--json":
+        json = true;
+        break;
+      default:
+        throw new Error(`Unknown arg: ${arg}`);
+    }
+  }
+  return { workdir, json };
+}
+
+function showConfig(options: ConfigShowOptions): void {
+  const resolved = resolveConfig({ workdir: options.workdir });
+  if (options.json) {
+    const { config, sources } = resolved;
+    const files = resolved.layers.filter((l) => l.file).map((l) => ({ source: l.source, file: l.file }));
+    process.stdout.write(`${JSON.stringify({ config, sources, files }, null, 2)}\n`);
+    return;
+  }
+  process.stdout.write(`${describeConfig(resolved).join("\n")}\n`);
+}
+
+function parseArchiveOptions(argv: string[], command: "export" | "import" | "replay"): ArchiveOptions {
+  let target: string | undefined;
+  let out: string | undefined;
+  let stateDir: string | undefined;
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--out":
+      case "-o": {
+        const value = argv[i + 1];
+        if (!value || command !== "export") throw new Error(`Unknown arg: ${arg}`);
+        out = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--state-dir": {
+        const value = argv[i + 1];
+        if (!value) throw new Error("Missing value for --state-dir");
+        stateDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default:
+        if (arg.startsWith("-") || target) throw new Error(`Unknown arg: ${arg}`);
+        target = arg;
+    }
+  }
+  if (!target) throw new Error(command === "import" ? "Missing archive file to import" : `Missing session id to ${command}`);
+  return { target, out, stateDir };
+}
+
+function archiveStateBaseDir(options: ArchiveOptions): string {
+  const { config } = resolveConfig({ workdir: process.cwd(), cli: options.stateDir ? { stateDir: options.stateDir } : {} });
+  return config.stateDir ?? resolveStateBaseDir();
+}
+
+function exportCommand(options: ArchiveOptions): void {
+  const session = resolveSessionId(archiveStateBaseDir(options), options.target);
+  const out = options.out ?? path.resolve(archiveFileName(session));
+  fs.writeFileSync(out, exportSession(session));
+  process.stdout.write(`Exported session ${session.id} to ${out}\n`);
+}
+
+function importCommand(options: ArchiveOptions): void {
+  const stateBaseDir = archiveStateBaseDir(options);
+  fs.mkdirSync(stateBaseDir, { recursive: true });
+  const session = importSession(stateBaseDir, fs.readFileSync(path.resolve(options.target)));
+  process.stdout.write(`Imported session ${session.id} (${session.status}, read-only) into ${session.stateDir}\n`);
+}
+
+// A new headless run fed from the session's recording instead of Codex; see replaySettings.
+async function replayCommand(options: ArchiveOptions): Promise<number> {
+  const stateBaseDir = archiveStateBaseDir(options);
+  const original = resolveSessionId(stateBaseDir, options.target);
+  const { goal, budget, completionSignal, stall, replayOf, ...config } = replaySettings(original);
+  process.stdout.write(`[milhouse] replaying session ${original.id}\n`);
+  return runHeadless({
+    goal,
+    workdir: replayWorkdir(stateBaseDir, original),
+    createIfMissing: true,
+    budget: budget ?? {},
+    gitCheckpoints: false,
+    completionSignal,
+    stall: stall ?? {},
+    config: { ...config, stateDir: stateBaseDir },
+    record: false,
+    replayOf,
+  });
+}
+
+async function runHeadless(options: RunOptions): Promise<number> {
+  const { goal, workdir, priceTable } = options;
+  const budget = Object.keys(options.budget).length ? options.budget : undefined;
+  if (!fs.existsSync(workdir)) {
+    if (!options.createIfMissing) throw new Error(`Workdir not found: ${workdir}`);
+    fs.mkdirSync(workdir, { recursive: true });
+  }
+
+  const { config } = resolveConfig({ workdir, cli: options.config });
+  const maxIterations = config.maxIterations ?? 0;
+  const stateBaseDir = config.stateDir ?? resolveStateBaseDir();
+  const stateDir = resolveSessionStateDir(stateBaseDir, workdir);
+  fs.mkdirSync(stateDir, { recursive: true });
+
+  const id = randomUUID();
+  // Parallel builders merge back onto the session branch, which only checkpoints create.
+  const parallel = config.parallel && config.parallel > 1 ? config.parallel : undefined;
+  const session: SessionRecord = {
+    id,
+    goal,
+    maxIterations,
+    workdir,
+    stateDir,
+    startedAt: new Date().toISOString(),
+    status: "running",
+    budget,
+    ...(options.gitCheckpoints || parallel ? { gitCheckpoints: true, branch: sessionBranchName(id) } : {}),
+    ...(config.verifyCommand && !options.replayOf
+      ? { verifyCommand: config.verifyCommand, verifyTimeoutSec: config.verifyTimeoutSec }
+      : {}),
+    ...(config.vars ? { vars: config.vars } : {}),
+    ...(options.completionSignal ? { completionSignal: options.completionSignal } : {}),
+    ...(Object.keys(options.stall).length ? { stall: options.stall } : {}),
+    ...(config.policy ? { policy: config.policy } : {}),
+    ...(config.promptsDir ? { promptsDir: config.promptsDir } : {}),
+    ...(config.backend && config.backend !== DEFAULT_BACKEND ? { backend: config.backend } : {}),
+    ...(config.pipeline ? { pipeline: config.pipeline } : {}),
+    ...(parallel ? { parallel } : {}),
+    ...(options.reviewPlan ? { reviewPlan: true } : {}),
+    ...(options.pauseEvery ? { pauseEvery: options.pauseEvery } : {}),
+    ...(options.record ? { recorded: true } : {}),
+    ...(options.replayOf ? { replayOf: options.replayOf } : {}),
+  };
+  upsertSession(stateBaseDir, session);
+  const notifyOptions = { stateBaseDir, log: (line: string) => process.stderr.write(`${line}\n`) };
+  const startNotified = sendNotifications(config.notify, session, notifyOptions);
+
+  process.stdout.write(`[milhouse] session: ${session.id}\n`);
+  process.stdout.write(`[milhouse] workdir: ${workdir}\n`);
+  process.stdout.write(`[milhouse] state dir: ${stateDir}\n`);
+
+  const child = spawnLoopRunner(resolveRuntimeRoot(), {
+    goal,
+    maxIterations,
+    workdir,
+    stateDir,
+    sessionDir: sessionDataDir(session),
+    budget,
+    priceTable,
+    checkpointBranch: session.gitCheckpoints ? session.branch : undefined,
+    verifyCommand: session.verifyCommand,
+    verifyTimeoutSec: session.verifyTimeoutSec,
+    vars: session.vars,
+    completionSignal: session.completionSignal,
+    stall: session.stall,
+    policy: session.policy,
+    promptsDir: session.promptsDir,
+    backend: session.backend,
+    record: session.recorded ? recordingPath(session) : undefined,
+    pipeline: session.pipeline,
+    parallel: session.parallel,
+    reviewPlan: session.reviewPlan,
+    pauseEvery: session.pauseEvery,
+  });
+  // Same shape as the web UI's log stream, so exported sessions read alike.
+  onLines(child.stdout, (line) => {
+    process.stdout.write(`${line}\n`);
+    appendSessionLog(session, line);
+    const threadId = matchThreadId(line);
+    if (threadId) session.threadId = threadId;
+  });
+  onLines(child.stderr, (line) => {
+    process.stderr.write(`${line}\n`);
+    appendSessionLog(session, `[stderr] ${line}`);
+  });
+  onLines(child.events, (line) => {
+    const event = parseLoopEvent(line);
+    const summary = event && describeLoopEvent(event);
+    if (summary) process.stdout.write(`${summary}\n`);
+  });
+
+  // Ctrl+C reaches the loop runner through the process group; SIGTERM has to be forwarded.
+  const forward = () => child.kill("SIGTERM");
+  process.on("SIGINT", forward);
+  process.on("SIGTERM", forward);
+
+  const { code, signal } = await new Promise<{ code: number | null; signal: NodeJS.Signals | null }>((resolve) => {
+    child.on("exit", (exitCode, exitSignal) => resolve({ code: exitCode, signal: exitSignal }));
+  });
+  process.off("SIGINT", forward);
+  process.off("SIGTERM", forward);
+
+  appendSessionLog(session, `[exit] code=${code ?? "null"} signal=${signal ?? "null"}`);
+  session.status = sessionStatusFromExit(code, signal);
+  session.endedAt = new Date().toISOString();
+  session.reason = readLoopOutcome(stateDir)?.reason;
+  syncSessionFromState(session);
+  upsertSession(stateBaseDir, session);
+
+  const reason = session.reason ? ` (${session.reason})` : "";
+  process.stdout.write(`[milhouse] ${session.status}${reason}\n`);
+  if (session.status === "awaiting-approval") {
+    process.stdout.write(`[milhouse] approve or reject it in the web UI, or POST /api/sessions/${session.id}/approve\n`);
+  }
+  if (session.usage) {
+    const u = session.usage;
+    process.stdout.write(
+      `[milhouse] usage: in=${u.inputTokens} cached=${u.cachedInputTokens} out=${u.outputTokens} ~$${u.costUsd.toFixed(4)}\n`,
+    );
+  }
+  // Webhook retries can outlast the run; wait so they are not cut off by the exit.
+  await Promise.all([startNotified, sendNotifications(config.notify, session, notifyOptions)]);
+  return exitCodeForStatus(session.status);
 }
 
 async function main(): Promise<void> {
@@ -93,19 +661,53 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (cmd === "config") {
+    if (argv[1] !== "show") throw new Error(`Unknown config command: ${argv[1] ?? ""} (expected "config show")`);
+    showConfig(parseConfigShowOptions(argv.slice(2)));
+    return;
+  }
+
+  if (cmd === "export") {
+    exportCommand(parseArchiveOptions(argv.slice(1), "export"));
+    return;
+  }
+
+  if (cmd === "import") {
+    importCommand(parseArchiveOptions(argv.slice(1), "import"));
+    return;
+  }
+
+  if (cmd === "replay") {
+    const replayOptions = parseArchiveOptions(argv.slice(1), "replay");
+    printMilhouseHeader();
+    process.exitCode = await replayCommand(replayOptions);
+    return;
+  }
+
+  if (cmd === "run") {
+    const runOptions = parseRunOptions(argv.slice(1));
+    printMilhouseHeader();
+    process.exitCode = await runHeadless(runOptions);
+    return;
+  }
+
   if (cmd !== "ui") {
     printMilhouseHeader();
     throw new Error(`Unknown command: ${cmd}`);
   }
 
   const options = parseUiOptions(argv.slice(1));
+  const { config } = resolveConfig({ workdir: options.workdir, cli: options.config });
 
   printMilhouseHeader();
   const { url } = await startServer({
-    host: options.host,
-    port: options.port,
+    host: config.host,
+    port: config.port,
     defaultWorkdir: options.workdir,
-    stateBaseDir: options.stateDir,
+    stateBaseDir: config.stateDir,
+    priceTable: options.priceTable,
+    cliConfig: options.config,
+    auth: options.auth,
   });
 
   process.stdout.write(`Milhouse panel running at ${url}\n`);
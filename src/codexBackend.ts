@@ -0,0 +1,12 @@
+import { Codex } from "@openai/codex-sdk";
+import type { AgentBackend } from "./agentBackend.js";
+
+export function createCodexBackend(): AgentBackend {
+  const apiKey = process.env.CODEX_API_KEY;
+  const codex = apiKey ? new Codex({ apiKey }) : new Codex();
+  return {
+    name: "codex",
+    startThread: (options) => codex.startThread(options),
+    resumeThread: (id, options) => codex.resumeThread(id, options),
+  };
+}
@@ -1,4 +1,13 @@
-import { Codex, type ApprovalMode, type SandboxMode, type ThreadOptions } from "@openai/codex-sdk";
+import {
+  type ApprovalMode,
+  type SandboxMode,
+  type ThreadEvent,
+  type ThreadItem,
+  type ThreadOptions,
+  type Usage,
+} from "@openai/codex-sdk";
+import type { AgentBackend } from "./agentBackend.js";
+import { createCodexBackend } from "./codexBackend.js";
 
 export type RunTurnOptions = {
   promptText: string;
@@ -10,6 +19,9 @@ export type RunTurnOptions = {
   skipGitRepoCheck?: boolean;
   networkAccessEnabled?: boolean;
   webSearchEnabled?: boolean;
+  onEvent?: (event: ThreadEvent) => void;
+  // Codex unless given.
+  backend?: AgentBackend;
 };
 
 export type RunTurnResult = {
@@ -20,8 +32,7 @@ export type RunTurnResult = {
 };
 
 export async function runTurn(options: RunTurnOptions): Promise<RunTurnResult> {
-  const apiKey = process.env.CODEX_API_KEY;
-  const codex = apiKey ? new Codex({ apiKey }) : new Codex();
+  const backend = options.backend ?? createCodexBackend();
 
   const threadOptions: ThreadOptions = {
     workingDirectory: options.workdir,
@@ -34,16 +45,31 @@ export async function runTurn(options: RunTurnOptions): Promise<RunTurnResult> {
   };
 
   const thread = options.threadId
-    ? codex.resumeThread(options.threadId, threadOptions)
-    : codex.startThread(threadOptions);
+    ? backend.resumeThread(options.threadId, threadOptions)
+    : backend.startThread(threadOptions);
 
-  const turn = await thread.run(options.promptText);
+  // Same result shape as `thread.run`, assembled from the event stream so callers can watch progress.
+  const { events } = await thread.runStreamed(options.promptText);
+  const items: ThreadItem[] = [];
+  let finalResponse = "";
+  let usage: Usage | null = null;
+
+  for await (const event of events) {
+    options.onEvent?.(event);
+    if (event.type === "item.completed") {
+      items.push(event.item);
+      if (event.item.type === "agent_message") finalResponse = event.item.text;
+    } else if (event.type === "turn.completed") {
+      usage = event.usage;
+    } else if (event.type === "turn.failed") {
+      throw new Error(event.error.message);
+    }
+  }
 
   return {
     threadId: thread.id,
-    finalResponse: turn.finalResponse,
-    items: turn.items,
-    usage: turn.usage,
+    finalResponse,
+    items,
+    usage,
   };
 }
-
@@ -0,0 +1,240 @@
+import envPaths from "env-paths";
+import fs from "node:fs";
+import path from "node:path";
+import { parseBackendSpec } from "./agentBackend.js";
+import { defaultStateBaseDir } from "./paths.js";
+import { parseNotifyConfig, type NotifyConfig } from "./notify.js";
+import { parseParallelLimit } from "./parallel.js";
+import { parsePipeline, type PipelinePhase } from "./pipeline.js";
+import { DEFAULT_PHASE_POLICY, parseAgentPolicy, type AgentPolicy } from "./policy.js";
+import { normalizeVars, type TemplateVars } from "./prompts.js";
+import { DEFAULT_VERIFY_TIMEOUT_SEC } from "./verify.js";
+
+export type MilhouseConfig = {
+  host?: string;
+  port?: number;
+  stateDir?: string;
+  maxIterations?: number;
+  // Checked before the project and user prompt directories.
+  promptsDir?: string;
+  verifyCommand?: string;
+  verifyTimeoutSec?: number;
+  policy?: AgentPolicy;
+  vars?: TemplateVars;
+  notify?: NotifyConfig;
+  // "codex", "scripted:<fixture.json>" or "replay:<recording.jsonl>".
+  backend?: string;
+  // Phases to run instead of plan-then-build; see DEFAULT_PIPELINE.
+  pipeline?: PipelinePhase[];
+  // How many plan items a parallel phase builds at once; unset or 1 builds one at a time.
+  parallel?: number;
+};
+
+// Lowest to highest precedence.
+export type ConfigSource = "default" | "user" | "project" | "env" | "cli" | "api";
+
+export type ConfigLayer = {
+  source: ConfigSource;
+  file?: string;
+  config: MilhouseConfig;
+};
+
+export type ResolvedConfig = {
+  config: MilhouseConfig;
+  // Keyed by dotted path, e.g. "port" or "policy.build.sandboxMode".
+  sources: Record<string, ConfigSource>;
+  layers: ConfigLayer[];
+};
+
+export type ResolveConfigOptions = {
+  workdir: string;
+  cli?: MilhouseConfig;
+  api?: MilhouseConfig;
+  env?: NodeJS.ProcessEnv;
+};
+
+type FieldParser = (value: unknown, baseDir: string) => unknown;
+
+const USER_CONFIG_FILES = ["milhouse.config.json", "config.json"];
+const PROJECT_CONFIG_FILES = ["milhouse.config.json", path.join(".milhouse", "config.json")];
+
+function expectString(value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) throw new Error("expected a non-empty string");
+  return value;
+}
+
+function expectInteger(min: number, max = Number.MAX_SAFE_INTEGER): FieldParser {
+  return (value) => {
+    const parsed = typeof value === "string" && value.trim() ? Number(value) : value;
+    if (typeof parsed !== "number" || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new Error(max === Number.MAX_SAFE_INTEGER ? `expected an integer >= ${min}` : `expected an integer between ${min} and ${max}`);
+    }
+    return parsed;
+  };
+}
+
+// Relative paths in a config file are relative to that file, not to wherever milhouse was started.
+const expectPath: FieldParser = (value, baseDir) => path.resolve(baseDir, expectString(value));
+
+const FIELDS: Record<keyof MilhouseConfig, FieldParser> = {
+  host: expectString,
+  port: expectInteger(0, 65535),
+  stateDir: expectPath,
+  maxIterations: expectInteger(0),
+  promptsDir: expectPath,
+  verifyCommand: expectString,
+  verifyTimeoutSec: expectInteger(1),
+  policy: (value) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) throw new Error("expected an object with plan/build");
+    const unknown = Object.keys(value).filter((k) => k !== "plan" && k !== "build");
+    if (unknown.length) throw new Error(`unknown phase ${unknown.join(", ")} (expected plan or build)`);
+    return parseAgentPolicy(value);
+  },
+  vars: (value) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) throw new Error("expected an object of NAME: value");
+    return normalizeVars(value);
+  },
+  notify: (value) => parseNotifyConfig(value),
+  backend: (value, baseDir) => parseBackendSpec(expectString(value), baseDir),
+  pipeline: (value) => parsePipeline(value),
+  parallel: (value) => parseParallelLimit(value),
+};
+
+export const CONFIG_KEYS = Object.keys(FIELDS) as (keyof MilhouseConfig)[];
+
+// Collects every problem so a broken config file can be fixed in one pass.
+export function validateConfig(input: unknown, origin: string, baseDir = process.cwd()): MilhouseConfig {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error(`Invalid config in ${origin}: expected a JSON object`);
+  }
+  const config: MilhouseConfig = {};
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    const parse = FIELDS[key as keyof MilhouseConfig];
+    if (!parse) {
+      errors.push(`${key}: unknown setting (expected one of ${CONFIG_KEYS.join(", ")})`);
+      continue;
+    }
+    if (value == null || value === "") continue;
+    try {
+      const parsed = parse(value, baseDir);
+      if (parsed !== undefined) (config as Record<string, unknown>)[key] = parsed;
+    } catch (err) {
+      errors.push(`${key}: ${(err as Error).message}`);
+    }
+  }
+  if (errors.length) {
+    throw new Error(`Invalid config in ${origin}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return config;
+}
+
+export function userConfigDir(): string {
+  return envPaths("milhouse").config;
+}
+
+function findConfigFile(dir: string, names: string[]): string | null {
+  for (const name of names) {
+    const candidate = path.join(dir, name);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+export function loadConfigFile(file: string): MilhouseConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read config ${file}: ${(err as Error).message}`);
+  }
+  // `.milhouse/config.json` paths are relative to the project, not the `.milhouse` dir.
+  const dir = path.dirname(file);
+  const baseDir = path.basename(dir) === ".milhouse" ? path.dirname(dir) : dir;
+  return validateConfig(raw, file, baseDir);
+}
+
+export function defaultConfig(): MilhouseConfig {
+  return {
+    host: "127.0.0.1",
+    port: 4173,
+    stateDir: defaultStateBaseDir(),
+    maxIterations: 0,
+    verifyTimeoutSec: DEFAULT_VERIFY_TIMEOUT_SEC,
+    policy: { plan: { ...DEFAULT_PHASE_POLICY }, build: { ...DEFAULT_PHASE_POLICY } },
+  };
+}
+
+export function envConfig(env: NodeJS.ProcessEnv = process.env): MilhouseConfig {
+  const pick = (...names: string[]) => names.map((n) => env[n]?.trim()).find(Boolean);
+  return validateConfig(
+    {
+      host: pick("MILHOUSE_HOST"),
+      port: pick("MILHOUSE_PORT", "PORT"),
+      stateDir: pick("MILHOUSE_STATE_DIR", "MILLHOUSE_STATE_DIR"),
+      maxIterations: pick("MILHOUSE_MAX_ITERATIONS"),
+      verifyCommand: pick("MILHOUSE_VERIFY_COMMAND"),
+      backend: pick("MILHOUSE_BACKEND"),
+    },
+    "environment",
+  );
+}
+
+function flatten(value: unknown, prefix: string, out: Record<string, unknown>) {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  } else if (value !== undefined) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+function unflatten(flat: Record<string, unknown>): MilhouseConfig {
+  const root: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flat)) {
+    const parts = key.split(".");
+    let node = root;
+    for (const part of parts.slice(0, -1)) {
+      node[part] = (node[part] as Record<string, unknown>) ?? {};
+      node = node[part] as Record<string, unknown>;
+    }
+    node[parts[parts.length - 1]] = value;
+  }
+  return root as MilhouseConfig;
+}
+
+export function configLayers(options: ResolveConfigOptions): ConfigLayer[] {
+  const layers: ConfigLayer[] = [{ source: "default", config: defaultConfig() }];
+  const userFile = findConfigFile(userConfigDir(), USER_CONFIG_FILES);
+  if (userFile) layers.push({ source: "user", file: userFile, config: loadConfigFile(userFile) });
+  const projectFile = findConfigFile(options.workdir, PROJECT_CONFIG_FILES);
+  if (projectFile) layers.push({ source: "project", file: projectFile, config: loadConfigFile(projectFile) });
+  layers.push({ source: "env", config: envConfig(options.env) });
+  if (options.cli) layers.push({ source: "cli", config: options.cli });
+  if (options.api) layers.push({ source: "api", config: options.api });
+  return layers;
+}
+
+// Merged value by value, so e.g. a project can set only `policy.build.sandboxMode`.
+export function resolveConfig(options: ResolveConfigOptions): ResolvedConfig {
+  const layers = configLayers(options);
+  const values: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(flatten(layer.config, "", {}))) {
+      values[key] = value;
+      sources[key] = layer.source;
+    }
+  }
+  return { config: unflatten(values), sources, layers };
+}
+
+export function describeConfig(resolved: ResolvedConfig): string[] {
+  const flat = flatten(resolved.config, "", {});
+  const width = Math.max(...Object.keys(flat).map((k) => k.length));
+  const lines = Object.entries(flat).map(
+    ([key, value]) => `${key.padEnd(width)}  ${JSON.stringify(value)}  (${resolved.sources[key]})`,
+  );
+  const files = resolved.layers.filter((l) => l.file).map((l) => `  ${l.source}: ${l.file}`);
+  return [...lines, "", "Config files:", ...(files.length ? files : ["  (none found)"])];
+}
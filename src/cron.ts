@@ -0,0 +1,142 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) in local time.
+export type CronSchedule = {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted.
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+type FieldSpec = { name: string; min: number; max: number; names?: string[]; namesFrom?: number };
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  // 7 is accepted as Sunday.
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+];
+
+// Long enough to reach the next 29 February.
+const LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + (spec.namesFrom ?? 0) : Number(raw);
+  if (!/^\d+$/.test(raw) && named < 0) throw new Error(`Invalid ${spec.name}: ${raw}`);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name}: ${raw} (expected ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in ${spec.name}: ${part}`);
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`Invalid range in ${spec.name}: ${range}`);
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => {
+    try {
+      return parseField(f, FIELDS[i]);
+    } catch (err) {
+      throw new Error(`Invalid cron expression "${expression}": ${(err as Error).message}`);
+    }
+  });
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+function dayMatches(cron: CronSchedule, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getDate());
+  const dow = cron.daysOfWeek.has(date.getDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) return dom && dow;
+  return dom || dow;
+}
+
+export function cronMatches(cron: CronSchedule, date: Date): boolean {
+  return (
+    cron.minutes.has(date.getMinutes()) &&
+    cron.hours.has(date.getHours()) &&
+    cron.months.has(date.getMonth() + 1) &&
+    dayMatches(cron, date)
+  );
+}
+
+// First matching minute strictly after `after`, or null if there is none (e.g. 31 February).
+export function nextCronTime(cron: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = after.getTime() + LOOKAHEAD_MS;
+  // Skip whole months, days and hours that cannot match.
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+}
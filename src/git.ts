@@ -0,0 +1,123 @@
+import { execFileSync } from "node:child_process";
+
+// Used when the repo has no committer identity configured, so checkpoints never fail on a fresh box.
+const FALLBACK_IDENTITY = ["-c", "user.name=milhouse", "-c", "user.email=milhouse@localhost"];
+
+// Untrimmed output, for patches where trailing whitespace is content.
+export function gitOutput(workdir: string, args: string[], env?: NodeJS.ProcessEnv): string {
+  return execFileSync("git", args, {
+    cwd: workdir,
+    env: env ?? process.env,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+export function git(workdir: string, args: string[], env?: NodeJS.ProcessEnv): string {
+  return gitOutput(workdir, args, env).trimEnd();
+}
+
+export function isGitRepo(workdir: string): boolean {
+  try {
+    return git(workdir, ["rev-parse", "--is-inside-work-tree"]) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function headSha(workdir: string): string | null {
+  try {
+    return git(workdir, ["rev-parse", "HEAD"]);
+  } catch {
+    // Unborn branch: nothing committed yet.
+    return null;
+  }
+}
+
+export function currentBranch(workdir: string): string | null {
+  try {
+    return git(workdir, ["symbolic-ref", "--short", "HEAD"]);
+  } catch {
+    return null;
+  }
+}
+
+function branchExists(workdir: string, branch: string): boolean {
+  try {
+    git(workdir, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isAncestor(workdir: string, sha: string, ref: string): boolean {
+  try {
+    git(workdir, ["merge-base", "--is-ancestor", sha, ref]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function checkoutSessionBranch(workdir: string, branch: string): void {
+  if (currentBranch(workdir) === branch) return;
+  git(workdir, branchExists(workdir, branch) ? ["checkout", branch] : ["checkout", "-b", branch]);
+}
+
+function identityArgs(workdir: string): string[] {
+  try {
+    git(workdir, ["config", "user.email"]);
+    return [];
+  } catch {
+    return FALLBACK_IDENTITY;
+  }
+}
+
+// Commits everything in the worktree; returns HEAD either way so every iteration has a checkpoint.
+export function commitAll(workdir: string, message: string): string | null {
+  git(workdir, ["add", "-A"]);
+  const staged = git(workdir, ["diff", "--cached", "--name-only"]);
+  if (staged) {
+    git(workdir, [...identityArgs(workdir), "commit", "--no-verify", "-m", message]);
+  }
+  return headSha(workdir);
+}
+
+// An empty root commit gives worktrees something to branch off in a brand-new repository.
+export function initRepo(workdir: string): void {
+  git(workdir, ["init", "--quiet"]);
+  git(workdir, [...identityArgs(workdir), "commit", "--quiet", "--allow-empty", "-m", "milhouse: empty root"]);
+}
+
+export function resetHard(workdir: string, sha: string): void {
+  git(workdir, ["reset", "--hard", sha]);
+}
+
+export function addWorktree(workdir: string, dir: string, branch: string, base: string): void {
+  // A worktree left behind by a crashed run would block the path.
+  git(workdir, ["worktree", "prune"]);
+  git(workdir, ["worktree", "add", "-B", branch, dir, base]);
+}
+
+export function removeWorktree(workdir: string, dir: string): void {
+  git(workdir, ["worktree", "remove", "--force", dir]);
+}
+
+export function deleteBranch(workdir: string, branch: string): void {
+  git(workdir, ["branch", "-D", branch]);
+}
+
+// Merges `branch` into the checked-out branch. A conflicting merge is aborted and its paths returned.
+export function mergeBranch(workdir: string, branch: string, message: string): { sha: string | null; conflicts: string[] } {
+  try {
+    git(workdir, [...identityArgs(workdir), "merge", "--no-ff", "--no-verify", "-m", message, branch]);
+    return { sha: headSha(workdir), conflicts: [] };
+  } catch (err) {
+    const conflicts = git(workdir, ["diff", "--name-only", "--diff-filter=U"]).split("\n").filter(Boolean);
+    if (!conflicts.length) throw err;
+    git(workdir, ["merge", "--abort"]);
+    return { sha: null, conflicts };
+  }
+}
@@ -1,6 +1,9 @@
 #!/usr/bin/env node
 import fs from "node:fs";
-import { Codex, type ThreadOptions } from "@openai/codex-sdk";
+import type { ThreadOptions } from "@openai/codex-sdk";
+import { createAgentBackend, parseBackendSpec } from "./agentBackend.js";
+import { runTurn } from "./codexRun.js";
+import { parseApprovalMode, parseSandboxMode, parseToggle, type PhasePolicy } from "./policy.js";
 
 type ParsedArgs = {
   prompt: string;
@@ -10,6 +13,8 @@ type ParsedArgs = {
   stream: boolean;
   logFile?: string;
   json: boolean;
+  policy: PhasePolicy;
+  backend?: string;
 };
 
 function printUsage(): void {
@@ -24,6 +29,11 @@ function printUsage(): void {
     "      --stream        Stream Codex events to stderr",
     "      --log-file <path> Write final JSON to a file",
     "      --json          Print JSON (response, items, usage, threadId)",
+    "      --sandbox <mode>  read-only | workspace-write | danger-full-access (default)",
+    "      --approval <mode> never (default) | on-request | on-failure | untrusted",
+    "      --network <on|off>    Allow network access inside the sandbox",
+    "      --web-search <on|off> Allow the web search tool",
+    "      --backend <spec>  codex (default) | scripted:<fixture.json>",
     "  -h, --help          Show this help text",
   ];
   console.log(usage.join("\n"));
@@ -41,8 +51,23 @@ function parseArgs(argv: string[]): ParsedArgs {
   let stream = false;
   let logFile: string | undefined;
   let json = false;
+  let backend: string | undefined;
+  const policy: PhasePolicy = {};
   const promptParts: string[] = [];
 
+  const policyValue = <T>(flag: string, value: string | undefined, parse: (v: string) => T): T => {
+    if (!value) {
+      console.error(`Missing value for ${flag}`);
+      process.exit(1);
+    }
+    try {
+      return parse(value);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  };
+
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
     switch (arg) {
@@ -94,6 +119,26 @@ function parseArgs(argv: string[]): ParsedArgs {
       case "--json":
         json = true;
         break;
+      case "--sandbox":
+        policy.sandboxMode = policyValue(arg, argv[i + 1], parseSandboxMode);
+        i += 1;
+        break;
+      case "--approval":
+        policy.approvalPolicy = policyValue(arg, argv[i + 1], parseApprovalMode);
+        i += 1;
+        break;
+      case "--network":
+        policy.networkAccessEnabled = policyValue(arg, argv[i + 1], (v) => parseToggle(arg, v));
+        i += 1;
+        break;
+      case "--web-search":
+        policy.webSearchEnabled = policyValue(arg, argv[i + 1], (v) => parseToggle(arg, v));
+        i += 1;
+        break;
+      case "--backend":
+        backend = policyValue(arg, argv[i + 1], parseBackendSpec);
+        i += 1;
+        break;
       case "-h":
       case "--help":
         printUsage();
@@ -104,11 +149,13 @@ function parseArgs(argv: string[]): ParsedArgs {
   }
 
   const prompt = promptParts.join(" ").trim();
-  return { prompt, promptFile, threadId, workdir, stream, logFile, json };
+  return { prompt, promptFile, threadId, workdir, stream, logFile, json, policy, backend };
 }
 
 async function main(): Promise<void> {
-  const { prompt, promptFile, threadId, workdir, stream, logFile, json } = parseArgs(process.argv.slice(2));
+  const { prompt, promptFile, threadId, workdir, stream, logFile, json, policy, backend: backendSpec } = parseArgs(
+    process.argv.slice(2),
+  );
 
   const promptText =
     promptFile != null
@@ -121,21 +168,22 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const apiKey = process.env.CODEX_API_KEY;
-
+  const cwd = workdir ?? process.cwd();
   const threadOptions: ThreadOptions = {
-    workingDirectory: workdir ?? process.cwd(),
-    approvalPolicy: "never",
-    sandboxMode: "danger-full-access",
+    workingDirectory: cwd,
+    approvalPolicy: policy.approvalPolicy ?? "never",
+    sandboxMode: policy.sandboxMode ?? "danger-full-access",
+    networkAccessEnabled: policy.networkAccessEnabled,
+    webSearchEnabled: policy.webSearchEnabled,
     skipGitRepoCheck: true,
   };
 
-  const codex = apiKey ? new Codex({ apiKey }) : new Codex();
-  const thread = threadId
-    ? codex.resumeThread(threadId, threadOptions)
-    : codex.startThread(threadOptions);
+  const backend = createAgentBackend(backendSpec);
 
   if (stream) {
+    const thread = threadId
+      ? backend.resumeThread(threadId, threadOptions)
+      : backend.startThread(threadOptions);
     const streamed = await thread.runStreamed(promptText);
     let lastAgent = "";
     let usage: unknown = null;
@@ -185,15 +233,17 @@ async function main(): Promise<void> {
     return;
   }
 
-  const turn = await thread.run(promptText);
-  const currentThreadId = thread.id;
-
-  const output = {
-    threadId: currentThreadId,
-    finalResponse: turn.finalResponse,
-    items: turn.items,
-    usage: turn.usage,
-  };
+  const output = await runTurn({
+    promptText,
+    workdir: cwd,
+    threadId,
+    sandboxMode: threadOptions.sandboxMode,
+    approvalPolicy: threadOptions.approvalPolicy,
+    networkAccessEnabled: threadOptions.networkAccessEnabled,
+    webSearchEnabled: threadOptions.webSearchEnabled,
+    skipGitRepoCheck: true,
+    backend,
+  });
 
   if (logFile) {
     fs.writeFileSync(logFile, JSON.stringify(output, null, 2), "utf8");
@@ -202,9 +252,9 @@ async function main(): Promise<void> {
   if (json) {
     console.log(JSON.stringify(output, null, 2));
   } else {
-    console.log(turn.finalResponse);
-    if (currentThreadId) {
-      console.error(`thread: ${currentThreadId}`);
+    console.log(output.finalResponse);
+    if (output.threadId) {
+      console.error(`thread: ${output.threadId}`);
     }
   }
 }
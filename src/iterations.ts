@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { RunTurnResult } from "./codexRun.js";
+import type { WorkerSummary } from "./parallel.js";
+import type { UsageTotals } from "./usage.js";
+import type { VerificationResult } from "./verify.js";
+import type { WorkspaceChanges } from "./workspaceDiff.js";
+
+// Name of the pipeline phase the turn belonged to, e.g. "plan" or "build".
+export type IterationPhase = string;
+
+export type IterationMeta = {
+  // One per agent turn: 0 is the first turn (the plan, by default) and later turns keep counting across resumes.
+  index: number;
+  phase: IterationPhase;
+  // The build loop iteration the turn belonged to, from 1 and across resumes; unset for start and end phases.
+  loop?: number;
+  startedAt: string;
+  endedAt: string;
+  threadId: string | null;
+  usage?: UsageTotals;
+  // Commit SHA of the workdir after this turn, when git checkpoints are enabled.
+  checkpoint?: string;
+  verification?: VerificationResult;
+  // Files the turn changed in the workdir; the patch itself is in diff.patch.
+  changes?: WorkspaceChanges;
+  // Set on the turns of parallel builders; `checkpoint` is then the merge commit.
+  worker?: WorkerSummary;
+};
+
+export type IterationRecord = IterationMeta & {
+  result: RunTurnResult | null;
+  plan: string | null;
+};
+
+export function iterationsDir(dataDir: string): string {
+  return path.join(dataDir, "iterations");
+}
+
+function iterationDir(dataDir: string, index: number): string {
+  return path.join(iterationsDir(dataDir), String(index).padStart(4, "0"));
+}
+
+function readJsonIfExists<T>(p: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(p, "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function resetIterations(dataDir: string): void {
+  fs.rmSync(iterationsDir(dataDir), { recursive: true, force: true });
+}
+
+export function writeIteration(
+  dataDir: string,
+  meta: IterationMeta,
+  result: RunTurnResult,
+  plan: string | null,
+  patch?: string,
+): void {
+  const dir = iterationDir(dataDir, meta.index);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "result.json"), JSON.stringify(result, null, 2), "utf8");
+  if (plan != null) fs.writeFileSync(path.join(dir, "plan.md"), plan, "utf8");
+  if (patch) fs.writeFileSync(path.join(dir, "diff.patch"), patch, "utf8");
+  // meta.json goes last so readers never see a half-written iteration.
+  fs.writeFileSync(path.join(dir, "meta.json"), JSON.stringify(meta, null, 2), "utf8");
+}
+
+export function listIterations(dataDir: string): IterationMeta[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(iterationsDir(dataDir));
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((name) => /^\d+$/.test(name))
+    .map((name) => readJsonIfExists<IterationMeta>(path.join(iterationsDir(dataDir), name, "meta.json")))
+    .filter((meta): meta is IterationMeta => meta != null)
+    .sort((a, b) => a.index - b.index);
+}
+
+export function nextIterationIndex(dataDir: string): number {
+  const all = listIterations(dataDir);
+  return all.length ? all[all.length - 1].index + 1 : 1;
+}
+
+export function readIteration(dataDir: string, index: number): IterationRecord | null {
+  const dir = iterationDir(dataDir, index);
+  const meta = readJsonIfExists<IterationMeta>(path.join(dir, "meta.json"));
+  if (!meta) return null;
+  let plan: string | null = null;
+  try {
+    plan = fs.readFileSync(path.join(dir, "plan.md"), "utf8");
+  } catch {
+    plan = null;
+  }
+  return { ...meta, result: readJsonIfExists<RunTurnResult>(path.join(dir, "result.json")), plan };
+}
+
+export function readIterationDiff(dataDir: string, index: number): string | null {
+  try {
+    return fs.readFileSync(path.join(iterationDir(dataDir, index), "diff.patch"), "utf8");
+  } catch {
+    return null;
+  }
+}
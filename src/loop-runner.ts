@@ -1,13 +1,144 @@
 import fs from "node:fs";
 import path from "node:path";
-import { fileURLToPath } from "node:url";
-import { runTurn } from "./codexRun.js";
+import type { ThreadEvent, ThreadItem } from "@openai/codex-sdk";
+import { createAgentBackend, REPLAY_PREFIX } from "./agentBackend.js";
+import { runTurn, type RunTurnResult } from "./codexRun.js";
+import {
+  addWorktree,
+  checkoutSessionBranch,
+  commitAll,
+  deleteBranch,
+  headSha,
+  isGitRepo,
+  mergeBranch,
+  removeWorktree,
+} from "./git.js";
+import {
+  listIterations,
+  nextIterationIndex,
+  resetIterations,
+  writeIteration,
+  type IterationPhase,
+} from "./iterations.js";
+import { createEventWriter, toLoopEvent, type LoopEventWriter } from "./loopEvents.js";
+import { clearLoopOutcome, LOOP_EXIT, stallKeyForFlag, writeLoopOutcome } from "./loopProcess.js";
+import {
+  DEFAULT_PIPELINE,
+  describePipeline,
+  parsePipeline,
+  resolvePipelinePolicy,
+  splitPipeline,
+  type PipelinePhase,
+} from "./pipeline.js";
+import {
+  describeWorker,
+  parseParallelLimit,
+  pickParallelItems,
+  workerBranchName,
+  workerInstructions,
+  workerWorktreeDir,
+  type WorkerSummary,
+} from "./parallel.js";
+import { applyPolicyFlag, describePhasePolicy, type AgentPolicy } from "./policy.js";
+import {
+  checklistChanges,
+  checkOffItems,
+  isPlanDone,
+  newlyCompleted,
+  parseChecklist,
+  parsePlan,
+  setPlanStatus,
+} from "./plan.js";
+import { createRecordingBackend } from "./recording.js";
+import { hasCompletionSignal } from "./spec.js";
+import {
+  createStallDetector,
+  DEFAULT_STALL_THRESHOLDS,
+  workdirFingerprint,
+  type StallThresholds,
+} from "./stall.js";
+import {
+  parseVarAssignment,
+  renderTemplate,
+  resolvePromptTemplate,
+  unresolvedPlaceholders,
+  type TemplateVars,
+} from "./prompts.js";
+import {
+  DEFAULT_VERIFY_TIMEOUT_SEC,
+  describeVerification,
+  runVerification,
+  verificationFeedback,
+  type VerificationResult,
+} from "./verify.js";
+import {
+  checkBudget,
+  emptyUsage,
+  loadPriceTable,
+  readUsageLedger,
+  recordTurnUsage,
+  writeUsageLedger,
+  type BudgetLimits,
+  type UsageLedger,
+} from "./usage.js";
+import {
+  describeChanges,
+  diffWorkspace,
+  snapshotWorkspace,
+  type WorkspaceDiff,
+  type WorkspaceSnapshot,
+} from "./workspaceDiff.js";
 
 type Args = {
   goal: string;
   maxIterations: number;
   workdir: string;
   stateDir: string;
+  // Where this session's iterations and usage ledger go; the state dir itself is shared per workdir.
+  sessionDir: string;
+  resume: boolean;
+  eventsFd?: number;
+  budget: BudgetLimits;
+  priceTable?: string;
+  checkpointBranch?: string;
+  verifyCommand?: string;
+  verifyTimeoutSec: number;
+  vars: TemplateVars;
+  completionSignal?: string;
+  stall: StallThresholds;
+  policy: AgentPolicy;
+  promptsDir?: string;
+  backend?: string;
+  // Recording file; every agent turn is appended to it.
+  record?: string;
+  pipeline?: PipelinePhase[];
+  // Concurrency limit for parallel builders; 1 builds one item at a time.
+  parallel: number;
+  // Exit as awaiting-approval once the start phases have run, and every `pauseEvery` loop iterations.
+  reviewPlan: boolean;
+  pauseEvery: number;
+};
+
+type PhaseTurn = {
+  result: RunTurnResult;
+  plan: string;
+  // Only taken for phases that run each iteration, for the stall check.
+  workdirAfter: string | null;
+  overBudget: string | null;
+};
+
+type TurnRecord = {
+  index: number;
+  phase: IterationPhase;
+  startedAt: string;
+  result: RunTurnResult;
+  planBefore: string;
+  plan: string | null;
+  verification?: VerificationResult;
+  diff?: WorkspaceDiff;
+  worker?: WorkerSummary;
+  // The merge commit of a parallel builder, which takes the place of the turn's own checkpoint.
+  checkpoint?: string;
 };
 
 function fail(message: string): never {
@@ -15,14 +146,54 @@ function fail(message: string): never {
   process.exit(1);
 }
 
+function parseLimit(flag: string, value: string | undefined): number {
+  if (!value) fail(`Missing value for ${flag}`);
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) fail(`Invalid ${flag}: ${value}`);
+  return parsed;
+}
+
 function parseArgs(argv: string[]): Args {
   let goal = "";
   let maxIterations = 0;
   let workdir = process.cwd();
   let stateDir = "";
+  let sessionDir = "";
+  let resume = false;
+  let eventsFd: number | undefined;
+  let priceTable: string | undefined;
+  let checkpointBranch: string | undefined;
+  let verifyCommand: string | undefined;
+  let verifyTimeoutSec = DEFAULT_VERIFY_TIMEOUT_SEC;
+  const budget: BudgetLimits = {};
+  const vars: TemplateVars = {};
+  let completionSignal: string | undefined;
+  const stall: StallThresholds = { ...DEFAULT_STALL_THRESHOLDS };
+  const policy: AgentPolicy = {};
+  let promptsDir: string | undefined;
+  let backend: string | undefined;
+  let record: string | undefined;
+  let pipeline: PipelinePhase[] | undefined;
+  let parallel = 1;
+  let reviewPlan = false;
+  let pauseEvery = 0;
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
+    const stallKey = stallKeyForFlag(arg);
+    if (stallKey) {
+      stall[stallKey] = Math.floor(parseLimit(arg, argv[i + 1]));
+      i += 1;
+      continue;
+    }
+    try {
+      if (applyPolicyFlag(policy, arg, argv[i + 1])) {
+        i += 1;
+        continue;
+      }
+    } catch (err) {
+      fail(err instanceof Error ? err.message : String(err));
+    }
     switch (arg) {
       case "--goal": {
         const value = argv[i + 1];
@@ -52,6 +223,128 @@ function parseArgs(argv: string[]): Args {
         i += 1;
         break;
       }
+      case "--session-dir": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --session-dir");
+        sessionDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--resume":
+        resume = true;
+        break;
+      case "--review-plan":
+        reviewPlan = true;
+        break;
+      case "--pause-every":
+        pauseEvery = Math.floor(parseLimit(arg, argv[i + 1]));
+        i += 1;
+        break;
+      case "--events-fd": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --events-fd");
+        eventsFd = Number(value);
+        if (!Number.isInteger(eventsFd) || eventsFd < 0) fail(`Invalid --events-fd: ${value}`);
+        i += 1;
+        break;
+      }
+      case "--max-input-tokens":
+        budget.maxInputTokens = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--max-output-tokens":
+        budget.maxOutputTokens = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--max-cost":
+        budget.maxCostUsd = parseLimit(arg, argv[i + 1]);
+        i += 1;
+        break;
+      case "--price-table": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --price-table");
+        priceTable = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--checkpoint-branch": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --checkpoint-branch");
+        checkpointBranch = value;
+        i += 1;
+        break;
+      }
+      case "--verify-command": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --verify-command");
+        verifyCommand = value;
+        i += 1;
+        break;
+      }
+      case "--verify-timeout":
+        verifyTimeoutSec = parseLimit(arg, argv[i + 1]) || DEFAULT_VERIFY_TIMEOUT_SEC;
+        i += 1;
+        break;
+      case "--completion-signal": {
+        const value = argv[i + 1];
+        if (!value?.trim()) fail("Missing value for --completion-signal");
+        completionSignal = value;
+        i += 1;
+        break;
+      }
+      case "--prompts-dir": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --prompts-dir");
+        promptsDir = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--backend": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --backend");
+        backend = value;
+        i += 1;
+        break;
+      }
+      case "--pipeline": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --pipeline");
+        try {
+          pipeline = parsePipeline(JSON.parse(value));
+        } catch (err) {
+          fail(`Invalid --pipeline: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        i += 1;
+        break;
+      }
+      case "--parallel": {
+        try {
+          parallel = parseParallelLimit(argv[i + 1]);
+        } catch (err) {
+          fail(`Invalid --parallel: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        i += 1;
+        break;
+      }
+      case "--record": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --record");
+        record = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--var": {
+        const value = argv[i + 1];
+        if (!value) fail("Missing value for --var");
+        try {
+          const [key, val] = parseVarAssignment(value);
+          vars[key] = val;
+        } catch (err) {
+          fail(err instanceof Error ? err.message : String(err));
+        }
+        i += 1;
+        break;
+      }
       default:
         fail(`Unknown arg: ${arg}`);
     }
@@ -59,21 +352,44 @@ function parseArgs(argv: string[]): Args {
 
   if (!goal.trim()) fail("--goal is required");
   if (!stateDir) fail("--state-dir is required");
-  return { goal, maxIterations, workdir, stateDir };
+  if (!sessionDir) fail("--session-dir is required");
+  return {
+    goal,
+    maxIterations,
+    workdir,
+    stateDir,
+    sessionDir,
+    resume,
+    eventsFd,
+    budget,
+    priceTable,
+    checkpointBranch,
+    verifyCommand,
+    verifyTimeoutSec,
+    vars,
+    completionSignal,
+    stall,
+    policy,
+    promptsDir,
+    backend,
+    record,
+    pipeline,
+    parallel,
+    reviewPlan,
+    pauseEvery,
+  };
 }
 
-function replaceAll(template: string, replacements: Record<string, string>): string {
-  let next = template;
-  for (const [key, value] of Object.entries(replacements)) {
-    next = next.replaceAll(key, value);
+function renderPrompt(args: Args, phase: PipelinePhase, vars: TemplateVars): string {
+  const resolved = resolvePromptTemplate(phase.prompt, args.workdir, args.promptsDir);
+  process.stdout.write(`${phase.name} prompt: ${resolved.path} (${resolved.source})\n`);
+  const rendered = renderTemplate(fs.readFileSync(resolved.path, "utf8"), vars);
+  const missing = unresolvedPlaceholders(rendered);
+  if (missing.length) {
+    process.stdout.write(`${phase.name} prompt has unresolved variables: ${missing.join(", ")}\n`);
   }
-  return next;
-}
-
-function renderPrompt(templatePath: string, outputPath: string, replacements: Record<string, string>) {
-  const template = fs.readFileSync(templatePath, "utf8");
-  const rendered = replaceAll(template, replacements);
-  fs.writeFileSync(outputPath, rendered, "utf8");
+  fs.writeFileSync(path.join(args.stateDir, `${phase.name}_prompt.md`), rendered, "utf8");
+  return rendered;
 }
 
 function readTextIfExists(p: string): string | null {
@@ -84,108 +400,499 @@ function readTextIfExists(p: string): string | null {
   }
 }
 
-function findPackageRoot(fromDir: string): string {
-  const candidates = [
-    // When running from `src/`
-    path.resolve(fromDir, ".."),
-    // When running from `dist/src/`
-    path.resolve(fromDir, "..", ".."),
-  ];
+function checkpointMessage(goal: string, index: number, phase: IterationPhase, completed: string[]): string {
+  const summary = completed.join("; ") || (phase === "build" ? "no checklist item completed" : phase);
+  const subject = `milhouse #${index}: ${summary}`;
+  const lines = [subject.length > 72 ? `${subject.slice(0, 71)}…` : subject, "", `Goal: ${goal.trim()}`];
+  if (completed.length) lines.push("", ...completed.map((item) => `- [x] ${item}`));
+  return lines.join("\n");
+}
 
-  for (const candidate of candidates) {
-    const plan = path.join(candidate, "prompts", "plan.md");
-    const build = path.join(candidate, "prompts", "build.md");
-    if (fs.existsSync(plan) && fs.existsSync(build)) {
-      return candidate;
-    }
+function logPlanProgress(index: number, before: string, after: string) {
+  if (before) {
+    const changes = checklistChanges(before, after);
+    for (const text of changes.completed) process.stdout.write(`#${index} [x] ${text}\n`);
+    for (const text of changes.reopened) process.stdout.write(`#${index} [ ] ${text} (reopened)\n`);
+    for (const text of changes.added) process.stdout.write(`#${index} + ${text}\n`);
+    for (const text of changes.removed) process.stdout.write(`#${index} - ${text}\n`);
   }
+  const plan = parsePlan(after);
+  process.stdout.write(`progress: ${plan.completed}/${plan.total} (${plan.percent}%) ${plan.status ?? "no status"}\n`);
+}
+
+function enableCheckpoints(workdir: string, branch: string): boolean {
+  if (!isGitRepo(workdir)) {
+    process.stdout.write("Workdir is not a git repository; checkpoints disabled.\n");
+    return false;
+  }
+  checkoutSessionBranch(workdir, branch);
+  process.stdout.write(`Checkpoint branch: ${branch}\n`);
+  return true;
+}
 
-  return path.resolve(fromDir, "..", "..");
+function isFileChange(item: unknown): boolean {
+  return (item as ThreadItem | null)?.type === "file_change";
 }
 
-async function main(): Promise<void> {
+function forwardEvents(emit: LoopEventWriter, phase: IterationPhase, iteration: number, worker?: number) {
+  return (event: ThreadEvent) => {
+    const loopEvent = toLoopEvent(event, phase, iteration);
+    if (loopEvent) emit(worker ? { ...loopEvent, worker } : loopEvent);
+  };
+}
+
+async function main(): Promise<number> {
   const args = parseArgs(process.argv.slice(2));
+  const emit = createEventWriter(args.eventsFd);
+  const prices = loadPriceTable(args.priceTable);
 
   fs.mkdirSync(args.stateDir, { recursive: true });
+  fs.mkdirSync(args.sessionDir, { recursive: true });
+  clearLoopOutcome(args.stateDir);
+  const checkpoints = args.checkpointBranch ? enableCheckpoints(args.workdir, args.checkpointBranch) : false;
+  const pipeline = args.pipeline ?? DEFAULT_PIPELINE;
+  const stages = splitPipeline(pipeline);
+  if (args.pipeline) process.stdout.write(`Pipeline: ${describePipeline(pipeline)}\n`);
+  // A resumed run goes straight back into the loop; the start phases have already run.
+  const active = args.resume ? [...stages.loop, ...stages.end] : pipeline;
+  const policies = new Map(pipeline.map((phase) => [phase.name, resolvePipelinePolicy(phase, args.policy)]));
+  for (const phase of active) process.stdout.write(`${describePhasePolicy(phase.name, policies.get(phase.name)!)}\n`);
+  if (args.verifyCommand && !pipeline.some((phase) => phase.verify)) {
+    process.stdout.write("No pipeline phase runs the verify command.\n");
+  }
+  // Workers branch off the session branch and merge back into it, so parallel builds need checkpoints.
+  let parallel = args.parallel;
+  if (parallel > 1 && !checkpoints) {
+    process.stdout.write("Parallel builders need git checkpoints; building one item at a time.\n");
+    parallel = 1;
+  } else if (parallel > 1 && !pipeline.some((phase) => phase.parallel)) {
+    process.stdout.write("No pipeline phase runs in parallel.\n");
+  } else if (parallel > 1) {
+    process.stdout.write(`Parallel builders: up to ${parallel}\n`);
+  }
 
   const threadFile = path.join(args.stateDir, "thread_id");
-  const planRendered = path.join(args.stateDir, "plan_prompt.md");
-  const buildRendered = path.join(args.stateDir, "build_prompt.md");
-  const planOut = path.join(args.stateDir, "plan_out.log");
-  const buildOut = path.join(args.stateDir, "build_out.log");
+  // Threads of `thread: "own"` phases by phase name; the shared thread stays in thread_id.
+  const phaseThreadsFile = path.join(args.stateDir, "phase_threads.json");
   const planPath = path.join(args.stateDir, "IMPLEMENTATION_PLAN.md");
+  const replaying = args.backend?.startsWith(REPLAY_PREFIX) ?? false;
+  const turnsPlayed = args.resume ? nextIterationIndex(args.sessionDir) : 0;
+  const agent = createAgentBackend(args.backend, { planPath, turnsPlayed });
+  if (args.backend) process.stdout.write(`Agent backend: ${args.backend}\n`);
+  const backend = args.record ? createRecordingBackend(agent, args.record, planPath) : agent;
+  if (args.record) process.stdout.write(`Recording turns to ${args.record}\n`);
 
-  const __dirname = path.dirname(fileURLToPath(import.meta.url));
-  const packageRoot = findPackageRoot(__dirname);
-  const planTemplate = path.join(packageRoot, "prompts", "plan.md");
-  const buildTemplate = path.join(packageRoot, "prompts", "build.md");
+  // Built-ins win over user variables so a stray GOAL=... cannot detach the prompt from the run.
+  const vars: TemplateVars = {
+    ...args.vars,
+    GOAL: args.goal,
+    PLAN_PATH: planPath,
+  };
 
-  const replacements = {
-    "{{GOAL}}": args.goal,
-    "{{PLAN_PATH}}": planPath,
+  let ledger: UsageLedger = (args.resume ? readUsageLedger(args.sessionDir) : null) ?? {
+    session: emptyUsage(),
+    iterations: {},
   };
 
-  renderPrompt(planTemplate, planRendered, replacements);
-
-  const planPromptText = fs.readFileSync(planRendered, "utf8");
-  const planResult = await runTurn({
-    promptText: planPromptText,
-    workdir: args.workdir,
-    threadId: undefined,
-    additionalDirectories: [args.stateDir],
-    sandboxMode: "workspace-write",
-    approvalPolicy: "never",
-    skipGitRepoCheck: true,
-  });
+  function checkpoint(index: number, phase: IterationPhase, planBefore: string, planAfter: string): string | undefined {
+    if (!checkpoints) return undefined;
+    try {
+      const completed = newlyCompleted(planBefore, planAfter);
+      const sha = commitAll(args.workdir, checkpointMessage(args.goal, index, phase, completed)) ?? undefined;
+      if (sha) process.stdout.write(`checkpoint #${index}: ${sha}\n`);
+      return sha;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      process.stdout.write(`Checkpoint #${index} failed: ${message}\n`);
+      return undefined;
+    }
+  }
+
+  // Change capture is best-effort: a turn without a snapshot just has no diff.
+  function snapshot(dir = args.workdir): WorkspaceSnapshot | null {
+    try {
+      return snapshotWorkspace(dir);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      process.stdout.write(`Workspace snapshot failed: ${message}\n`);
+      return null;
+    }
+  }
+
+  function changesSince(before: WorkspaceSnapshot | null, dir = args.workdir): WorkspaceDiff | undefined {
+    if (!before) return undefined;
+    try {
+      return diffWorkspace(dir, before) ?? undefined;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      process.stdout.write(`Workspace diff failed: ${message}\n`);
+      return undefined;
+    }
+  }
 
-  fs.writeFileSync(planOut, JSON.stringify(planResult, null, 2), "utf8");
+  // Records a finished turn; returns the budget limit it pushed the session past, if any.
+  function recordTurn(turn: TurnRecord): string | null {
+    const { index, phase, startedAt, result, plan, diff } = turn;
+    logPlanProgress(index, turn.planBefore, plan ?? "");
+    if (diff) process.stdout.write(`changes #${index}: ${describeChanges(diff.changes)}\n`);
+    if (turn.worker) process.stdout.write(`#${index} ${describeWorker(turn.worker)}\n`);
+    const sha = turn.worker ? turn.checkpoint : checkpoint(index, phase, turn.planBefore, plan ?? "");
+    if (turn.worker && sha) process.stdout.write(`checkpoint #${index}: ${sha}\n`);
+    ledger = recordTurnUsage(ledger, index, result.usage, prices);
+    writeUsageLedger(args.sessionDir, ledger);
+    writeIteration(
+      args.sessionDir,
+      {
+        index,
+        phase,
+        loop,
+        startedAt,
+        endedAt: new Date().toISOString(),
+        threadId: result.threadId,
+        usage: ledger.iterations[String(index)],
+        checkpoint: sha,
+        verification: turn.verification,
+        changes: diff?.changes,
+        worker: turn.worker,
+      },
+      result,
+      plan,
+      diff?.patch,
+    );
+    return checkBudget(ledger.session, args.budget);
+  }
 
-  if (planResult.threadId) {
-    fs.writeFileSync(threadFile, planResult.threadId, "utf8");
-    process.stdout.write(`thread: ${planResult.threadId}\n`);
+  function stalled(reason: string): number {
+    process.stdout.write(`Stalled: ${reason}\n`);
+    writeLoopOutcome(args.stateDir, { status: "stalled", reason });
+    return LOOP_EXIT.stalled;
   }
 
-  renderPrompt(buildTemplate, buildRendered, replacements);
-  const buildPromptText = fs.readFileSync(buildRendered, "utf8");
+  // The parent resumes the session once someone approves; the plan may have been edited by then.
+  function awaitApproval(reason: string): number {
+    process.stdout.write(`Awaiting approval: ${reason}\n`);
+    writeLoopOutcome(args.stateDir, { status: "awaiting-approval", reason });
+    return LOOP_EXIT.awaitingApproval;
+  }
 
-  let iter = 0;
-  while (true) {
-    if (args.maxIterations > 0 && iter >= args.maxIterations) {
-      process.stdout.write(`Reached max iterations: ${args.maxIterations}\n`);
-      break;
+  function budgetExhausted(reason: string): number {
+    process.stdout.write(`Budget exhausted: ${reason}\n`);
+    writeLoopOutcome(args.stateDir, { status: "budget-exhausted", reason });
+    return LOOP_EXIT.budgetExhausted;
+  }
+
+  const threads: { shared?: string; own: Record<string, string> } = { own: {} };
+  if (args.resume) {
+    // Resuming keeps the existing plan and threads; re-planning would overwrite the checklist.
+    threads.shared = readTextIfExists(threadFile)?.trim() || undefined;
+    threads.own = JSON.parse(readTextIfExists(phaseThreadsFile) ?? "{}");
+    if (!threads.shared && active.some((phase) => phase.thread === "shared")) {
+      fail(`Cannot resume: no thread id in ${threadFile}`);
     }
+    if (!fs.existsSync(planPath)) fail(`Cannot resume: no plan at ${planPath}`);
+    if (threads.shared) process.stdout.write(`Resuming thread: ${threads.shared}\n`);
+  } else {
+    resetIterations(args.sessionDir);
+    fs.rmSync(phaseThreadsFile, { force: true });
+  }
+
+  const prompts = new Map(active.map((phase) => [phase.name, renderPrompt(args, phase, vars)]));
+  let turnIndex = turnsPlayed;
+  const recorded = args.resume ? listIterations(args.sessionDir) : [];
+  // A failed verification is fed back to the phase's next turn, also across a resume.
+  const verifications = new Map<string, VerificationResult>();
+  const verified = recorded.filter((it) => it.verification);
+  for (const it of verified) verifications.set(it.phase, it.verification!);
+  let lastVerification = verified.pop()?.verification;
+  let previous: { phase: string; thread: string | null; response: string } | undefined;
+  // Loop iterations count across resumes, so --max-iterations and --pause-every apply to the whole session.
+  let iter = Math.max(0, ...recorded.map((it) => it.loop ?? 0));
+  let loop: number | undefined;
+
+  function phasePrompt(phase: PipelinePhase, thread: string | null): string {
+    let promptText = prompts.get(phase.name)!;
+    const verified = verifications.get(phase.name);
+    if (verified && !verified.passed) promptText = `${promptText}\n\n${verificationFeedback(verified)}\n`;
+    // Phases on different threads don't see each other's turns, so the latest response is handed over.
+    if (previous && previous.thread !== thread && previous.response.trim()) {
+      promptText = `${promptText}\n\nLatest response from the ${previous.phase} phase:\n\n${previous.response.trim()}\n`;
+    }
+    return promptText;
+  }
 
-    const tid = readTextIfExists(threadFile)?.trim();
-    const buildResult = await runTurn({
-      promptText: buildPromptText,
+  async function runPhase(phase: PipelinePhase): Promise<PhaseTurn> {
+    if (phase.parallel && parallel > 1) {
+      const items = pickParallelItems(readTextIfExists(planPath) ?? "", parallel);
+      const fanned = items.length > 1 ? await runWorkers(phase, items) : null;
+      if (fanned) return fanned;
+    }
+    const index = turnIndex++;
+    const ownThread = phase.thread === "own" ? phase.name : null;
+    process.stdout.write(`[${phase.name}] turn #${index}\n`);
+    const promptText = phasePrompt(phase, ownThread);
+
+    const stalePlan = readTextIfExists(planPath);
+    // The first turn of a fresh run starts from nothing; a plan left by an earlier session doesn't count.
+    const planBefore = index === 0 ? "" : (stalePlan ?? "");
+    const startedAt = new Date().toISOString();
+    const before = snapshot();
+    const result = await runTurn({
+      promptText,
       workdir: args.workdir,
-      threadId: tid || undefined,
+      threadId: ownThread ? threads.own[ownThread] : threads.shared,
       additionalDirectories: [args.stateDir],
-      sandboxMode: "workspace-write",
-      approvalPolicy: "never",
+      ...policies.get(phase.name),
       skipGitRepoCheck: true,
+      onEvent: forwardEvents(emit, phase.name, index),
+      backend,
+    });
+
+    fs.writeFileSync(path.join(args.stateDir, `${phase.name}_out.log`), JSON.stringify(result, null, 2), "utf8");
+    // Taken before verification so build output from the verify command doesn't count as progress.
+    const workdirAfter = phase.run === "each-iteration" ? workdirFingerprint(args.workdir) : null;
+    const diff = changesSince(before);
+    // A read-only planner can't write the plan file; the prompt has it answer with the plan instead.
+    // A planner that can write and kept the existing plan meant to, so its summary doesn't replace it.
+    const planAfter = readTextIfExists(planPath);
+    const readOnly = policies.get(phase.name)!.sandboxMode === "read-only";
+    if (phase.name === "plan" && result.finalResponse.trim() && (readOnly ? planAfter === stalePlan : !planAfter?.trim())) {
+      fs.writeFileSync(planPath, `${result.finalResponse.trim()}\n`, "utf8");
+      process.stdout.write(`Plan written from the planner's response: ${planPath}\n`);
+    }
+
+    if (result.threadId && ownThread) {
+      threads.own[ownThread] = result.threadId;
+      fs.writeFileSync(phaseThreadsFile, JSON.stringify(threads.own, null, 2), "utf8");
+      process.stdout.write(`${phase.name} runs on its own thread ${result.threadId}\n`);
+    } else if (result.threadId) {
+      threads.shared = result.threadId;
+      fs.writeFileSync(threadFile, result.threadId, "utf8");
+      process.stdout.write(`thread: ${result.threadId}\n`);
+    }
+    previous = { phase: phase.name, thread: ownThread, response: result.finalResponse };
+
+    let verification: VerificationResult | undefined;
+    if (phase.verify && args.verifyCommand) {
+      verification = await runVerification(args.verifyCommand, args.workdir, args.verifyTimeoutSec);
+      process.stdout.write(`${describeVerification(verification)}\n`);
+      verifications.set(phase.name, verification);
+      lastVerification = verification;
+    }
+
+    const plan = readTextIfExists(planPath);
+    const overBudget = recordTurn({
+      index,
+      phase: phase.name,
+      startedAt,
+      result,
+      planBefore,
+      plan,
+      verification,
+      diff,
+    });
+    return { result, plan: plan ?? "", workdirAfter, overBudget };
+  }
+
+  // One turn per item, side by side in worktrees off the session branch; each worker's commit is then merged
+  // back in item order. Returns null when there is nothing committed to branch off yet.
+  async function runWorkers(phase: PipelinePhase, items: string[]): Promise<PhaseTurn | null> {
+    const base = commitAll(args.workdir, `milhouse: before parallel ${phase.name}`);
+    if (!base) {
+      process.stdout.write("Nothing committed to branch workers off yet; building one item at a time.\n");
+      return null;
+    }
+    const thread = `${phase.name} workers`;
+    const promptText = phasePrompt(phase, thread);
+    const planBefore = readTextIfExists(planPath) ?? "";
+    const workers = items.map((item, i) => {
+      const index = turnIndex++;
+      const dir = workerWorktreeDir(args.stateDir, index);
+      const branch = workerBranchName(args.checkpointBranch!, index);
+      fs.rmSync(dir, { recursive: true, force: true });
+      addWorktree(args.workdir, dir, branch, base);
+      return { id: i + 1, index, item, dir, branch };
+    });
+
+    const outcomes = await Promise.all(
+      workers.map(async (worker) => {
+        process.stdout.write(`[${phase.name} w${worker.id}] turn #${worker.index}: ${worker.item}\n`);
+        const startedAt = new Date().toISOString();
+        const before = snapshot(worker.dir);
+        try {
+          const result = await runTurn({
+            promptText: `${promptText}\n\n${workerInstructions(worker.item, workers.length)}\n`,
+            workdir: worker.dir,
+            additionalDirectories: [args.stateDir],
+            ...policies.get(phase.name),
+            skipGitRepoCheck: true,
+            onEvent: forwardEvents(emit, phase.name, worker.index, worker.id),
+            backend,
+          });
+          const log = path.join(args.stateDir, `${phase.name}-w${worker.id}_out.log`);
+          fs.writeFileSync(log, JSON.stringify(result, null, 2), "utf8");
+          return { ...worker, startedAt, result, diff: changesSince(before, worker.dir) };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          process.stdout.write(`[${phase.name} w${worker.id}] turn failed: ${error}\n`);
+          return { ...worker, startedAt, error, diff: changesSince(before, worker.dir) };
+        }
+      }),
+    );
+
+    // Workers are told to leave the plan alone; whatever they wrote is replaced by the loop's own check-offs.
+    let plan = planBefore;
+    const merged = outcomes.map((outcome) => {
+      const { id, index, item, dir, branch } = outcome;
+      const planStart = plan;
+      const summary: WorkerSummary = { id, item, branch, status: "failed" };
+      let sha: string | undefined;
+      try {
+        if ("error" in outcome) {
+          summary.error = outcome.error;
+        } else {
+          const head = headSha(dir);
+          const committed = commitAll(dir, checkpointMessage(args.goal, index, phase.name, [item])) !== head;
+          // Replays don't reapply file changes, so there the recorded turn says whether the worker changed anything.
+          const changed = replaying ? outcome.result.items.some(isFileChange) : committed;
+          const merge = changed ? mergeBranch(args.workdir, branch, `milhouse #${index}: merge ${branch}`) : null;
+          if (!merge) {
+            summary.status = "no-changes";
+          } else if (merge.conflicts.length) {
+            summary.status = "conflict";
+            summary.conflicts = merge.conflicts;
+          } else {
+            summary.status = "merged";
+            sha = merge.sha ?? undefined;
+            plan = checkOffItems(plan, [item]).plan;
+          }
+        }
+      } catch (err) {
+        summary.error = err instanceof Error ? err.message : String(err);
+      } finally {
+        removeWorktree(args.workdir, dir);
+        if (summary.status !== "conflict") deleteBranch(args.workdir, branch);
+      }
+      return { outcome, summary, sha, planStart, planEnd: plan };
+    });
+    if (!parseChecklist(plan).some((item) => !item.done)) plan = setPlanStatus(plan, "DONE");
+    fs.writeFileSync(planPath, plan, "utf8");
+
+    let verification: VerificationResult | undefined;
+    if (phase.verify && args.verifyCommand) {
+      verification = await runVerification(args.verifyCommand, args.workdir, args.verifyTimeoutSec);
+      process.stdout.write(`${describeVerification(verification)}\n`);
+      verifications.set(phase.name, verification);
+      lastVerification = verification;
+    }
+
+    let overBudget: string | null = null;
+    merged.forEach(({ outcome, summary, sha, planStart, planEnd }, i) => {
+      const last = i === merged.length - 1;
+      const exceeded = recordTurn({
+        index: outcome.index,
+        phase: phase.name,
+        startedAt: outcome.startedAt,
+        result: "result" in outcome ? outcome.result : { threadId: null, finalResponse: "", items: [], usage: null },
+        planBefore: planStart,
+        // The last worker's turn also carries a STATUS: DONE the loop added.
+        plan: last ? plan : planEnd,
+        verification: last ? verification : undefined,
+        diff: outcome.diff,
+        worker: summary,
+        checkpoint: sha,
+      });
+      overBudget ??= exceeded;
     });
+    const failed = outcomes.filter((outcome) => "error" in outcome);
+    if (failed.length === outcomes.length) throw new Error(`Every ${phase.name} worker failed: ${failed[0].error}`);
 
-    fs.writeFileSync(buildOut, JSON.stringify(buildResult, null, 2), "utf8");
+    const response = outcomes
+      .map((outcome) => ("result" in outcome ? outcome.result.finalResponse.trim() : ""))
+      .filter(Boolean)
+      .join("\n\n");
+    previous = { phase: phase.name, thread, response };
+    const result: RunTurnResult = { threadId: null, finalResponse: response, items: [], usage: null };
+    return { result, plan, workdirAfter: workdirFingerprint(args.workdir), overBudget };
+  }
 
-    if (buildResult.threadId) {
-      fs.writeFileSync(threadFile, buildResult.threadId, "utf8");
-      process.stdout.write(`thread: ${buildResult.threadId}\n`);
+  // Phases after the loop only run once it has finished successfully.
+  async function finish(): Promise<number> {
+    loop = undefined;
+    for (const phase of stages.end) {
+      const turn = await runPhase(phase);
+      if (turn.overBudget) return budgetExhausted(turn.overBudget);
+    }
+    return LOOP_EXIT.done;
+  }
+
+  if (!args.resume) {
+    for (const phase of stages.start) {
+      const turn = await runPhase(phase);
+      if (turn.overBudget) return budgetExhausted(turn.overBudget);
+    }
+    if (args.reviewPlan && stages.start.length && stages.loop.length) return awaitApproval("plan ready for review");
+  }
+  if (!stages.loop.length) return finish();
+
+  if (iter) process.stdout.write(`Resuming after loop ${iter}\n`);
+  const stallDetector = createStallDetector(args.stall);
+  while (true) {
+    if (args.maxIterations > 0 && iter >= args.maxIterations) {
+      process.stdout.write(`Reached max iterations: ${args.maxIterations}\n`);
+      return LOOP_EXIT.maxIterations;
     }
 
-    const planText = readTextIfExists(planPath) ?? "";
-    if (/STATUS:\s*DONE\b/.test(planText)) {
-      process.stdout.write("Plan marked DONE. Exiting.\n");
-      break;
+    loop = iter + 1;
+    const planBefore = readTextIfExists(planPath) ?? "";
+    const workdirBefore = workdirFingerprint(args.workdir);
+    let planAfter = planBefore;
+    let workdirAfter = workdirBefore;
+    const responses: string[] = [];
+    for (const phase of stages.loop) {
+      const turn = await runPhase(phase);
+      planAfter = turn.plan;
+      workdirAfter = turn.workdirAfter;
+      responses.push(turn.result.finalResponse);
+
+      const signals = [
+        ...(phase.exit === "plan-done" && args.completionSignal ? [args.completionSignal] : []),
+        ...(phase.exitSignal ? [phase.exitSignal] : []),
+      ];
+      const signalled = signals.some((signal) => hasCompletionSignal(turn.result.finalResponse, signal));
+      if (signalled || (phase.exit === "plan-done" && isPlanDone(turn.plan))) {
+        const what = signalled ? "Completion signal received" : "Plan marked DONE";
+        if (!lastVerification || lastVerification.passed) {
+          process.stdout.write(`${what}. Exiting.\n`);
+          return finish();
+        }
+        process.stdout.write(`${what} but verification is failing; continuing.\n`);
+      }
+      if (turn.overBudget) return budgetExhausted(turn.overBudget);
     }
 
+    const stall = stallDetector.observe({
+      planBefore,
+      planAfter,
+      response: responses.join("\n\n"),
+      workdirBefore,
+      workdirAfter,
+    });
+    if (stall) return stalled(stall);
+
     iter += 1;
+    if (args.pauseEvery > 0 && iter % args.pauseEvery === 0) {
+      return awaitApproval(`paused after ${iter} iteration${iter === 1 ? "" : "s"}`);
+    }
     process.stdout.write(`================ LOOP ${iter} ================\n`);
   }
 }
 
-main().catch((err) => {
-  const message = err instanceof Error ? err.stack ?? err.message : String(err);
-  process.stderr.write(`${message}\n`);
-  process.exit(1);
-});
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    const message = err instanceof Error ? err.stack ?? err.message : String(err);
+    process.stderr.write(`${message}\n`);
+    process.exit(LOOP_EXIT.failed);
+  });
@@ -0,0 +1,90 @@
+import net from "node:net";
+import type { ThreadEvent, ThreadItem, Usage } from "@openai/codex-sdk";
+import type { IterationPhase } from "./iterations.js";
+
+// Machine-readable events the loop runner writes as JSON lines on its events fd.
+// `worker` is set on the events of a parallel builder, numbered from 1 within its fan-out.
+type EventContext = { phase: IterationPhase; iteration: number; at: string; worker?: number };
+
+export type LoopEvent = EventContext &
+  (
+    | { type: "turn.started" }
+    | { type: "item.started" | "item.updated" | "item.completed"; item: ThreadItem }
+    | { type: "turn.completed"; usage: Usage | null }
+    | { type: "turn.failed"; error: string }
+  );
+
+export type LoopEventWriter = (event: LoopEvent) => void;
+
+// The fd the loop runner's parent opens as a dedicated pipe for events (after stdin/stdout/stderr).
+export const LOOP_EVENTS_FD = 3;
+
+export function createEventWriter(fd: number | undefined): LoopEventWriter {
+  if (fd == null) return () => {};
+  const socket = new net.Socket({ fd, readable: false, writable: true });
+  // A parent that stopped reading must not take the loop down with it.
+  socket.on("error", () => {});
+  return (event) => {
+    socket.write(`${JSON.stringify(event)}\n`);
+  };
+}
+
+export function toLoopEvent(event: ThreadEvent, phase: IterationPhase, iteration: number): LoopEvent | null {
+  const at = new Date().toISOString();
+  switch (event.type) {
+    case "turn.started":
+      return { type: event.type, phase, iteration, at };
+    case "item.started":
+    case "item.updated":
+    case "item.completed":
+      return { type: event.type, item: event.item, phase, iteration, at };
+    case "turn.completed":
+      return { type: event.type, usage: event.usage, phase, iteration, at };
+    case "turn.failed":
+      return { type: event.type, error: event.error.message, phase, iteration, at };
+    default:
+      return null;
+  }
+}
+
+export function parseLoopEvent(line: string): LoopEvent | null {
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed.type === "string" ? (parsed as LoopEvent) : null;
+  } catch {
+    return null;
+  }
+}
+
+// One-line summary for terminals; null for events too noisy to print.
+export function describeLoopEvent(event: LoopEvent): string | null {
+  const line = describeEvent(event);
+  return line && event.worker ? `[w${event.worker}] ${line}` : line;
+}
+
+function describeEvent(event: LoopEvent): string | null {
+  if (event.type === "turn.failed") return `[turn.failed] ${event.error}`;
+  if (event.type === "turn.completed") {
+    const usage = event.usage;
+    return usage ? `[usage] in=${usage.input_tokens} cached=${usage.cached_input_tokens} out=${usage.output_tokens}` : null;
+  }
+  if (event.type !== "item.started" && event.type !== "item.completed") return null;
+
+  const item = event.item;
+  switch (item.type) {
+    case "command_execution":
+      return event.type === "item.started"
+        ? `[cmd] $ ${item.command}`
+        : `[cmd] exit=${item.exit_code ?? "?"} ${item.command}`;
+    case "file_change":
+      return event.type === "item.completed"
+        ? `[files] ${item.changes.map((c) => `${c.kind} ${c.path}`).join(", ")}`
+        : null;
+    case "agent_message":
+      return event.type === "item.completed" ? `[agent] ${item.text}` : null;
+    case "error":
+      return `[error] ${item.message}`;
+    default:
+      return null;
+  }
+}
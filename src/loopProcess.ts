@@ -0,0 +1,209 @@
+import fs from "node:fs";
+import path from "node:path";
+import { spawn, type ChildProcess } from "node:child_process";
+import type { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { LOOP_EVENTS_FD } from "./loopEvents.js";
+import type { PipelinePhase } from "./pipeline.js";
+import { policyToArgs, type AgentPolicy } from "./policy.js";
+import type { TemplateVars } from "./prompts.js";
+import type { SessionStatus } from "./sessions.js";
+import type { StallThresholds } from "./stall.js";
+import type { BudgetLimits } from "./usage.js";
+
+// Exit codes used by loop-runner to tell its parent how the loop ended.
+export const LOOP_EXIT = {
+  done: 0,
+  failed: 1,
+  maxIterations: 2,
+  budgetExhausted: 3,
+  stalled: 4,
+  awaitingApproval: 5,
+} as const;
+
+export const STALL_FLAGS: Record<keyof StallThresholds, string> = {
+  planUnchanged: "--stall-plan-unchanged",
+  noWorkdirChanges: "--stall-no-changes",
+  repeatedResponse: "--stall-repeated-response",
+  checklistGrowth: "--stall-checklist-growth",
+};
+
+export function stallKeyForFlag(flag: string): keyof StallThresholds | undefined {
+  return (Object.keys(STALL_FLAGS) as (keyof StallThresholds)[]).find((key) => STALL_FLAGS[key] === flag);
+}
+
+// Written by the loop runner when it ends for a reason the exit code alone can't explain.
+export type LoopOutcome = {
+  status: SessionStatus;
+  reason?: string;
+};
+
+export type LoopRunnerChild = ChildProcess & { stdout: Readable; stderr: Readable; events: Readable };
+
+export type LoopRunnerArgs = {
+  goal: string;
+  maxIterations: number;
+  workdir: string;
+  stateDir: string;
+  // See sessionDataDir.
+  sessionDir: string;
+  resume?: boolean;
+  budget?: BudgetLimits;
+  priceTable?: string;
+  checkpointBranch?: string;
+  verifyCommand?: string;
+  verifyTimeoutSec?: number;
+  vars?: TemplateVars;
+  completionSignal?: string;
+  stall?: Partial<StallThresholds>;
+  policy?: AgentPolicy;
+  promptsDir?: string;
+  backend?: string;
+  record?: string;
+  pipeline?: PipelinePhase[];
+  parallel?: number;
+  reviewPlan?: boolean;
+  pauseEvery?: number;
+};
+
+export function resolveRuntimeRoot(): string {
+  // `src/` in development, `dist/src/` once built.
+  const __dirname = path.dirname(fileURLToPath(import.meta.url));
+  return path.resolve(__dirname, "..");
+}
+
+export function resolveLoopRunner(runtimeRoot: string): { command: string; args: string[] } {
+  const jsPath = path.join(runtimeRoot, "src", "loop-runner.js");
+  if (fs.existsSync(jsPath)) {
+    return { command: process.execPath, args: [jsPath] };
+  }
+
+  const tsPath = path.join(runtimeRoot, "src", "loop-runner.ts");
+  // tsx is loaded in-process: its CLI re-spawns node with fd 3 as its own IPC channel, which would
+  // take the place of the events pipe.
+  if (fs.existsSync(tsPath) && fs.existsSync(path.join(runtimeRoot, "node_modules", "tsx"))) {
+    return { command: process.execPath, args: ["--import", "tsx", tsPath] };
+  }
+
+  throw new Error("Loop runner not found (expected dist build output).");
+}
+
+export function buildLoopRunnerArgs(args: LoopRunnerArgs): string[] {
+  return [
+    "--goal",
+    args.goal,
+    "--max-iterations",
+    String(args.maxIterations),
+    "--workdir",
+    args.workdir,
+    "--state-dir",
+    args.stateDir,
+    "--session-dir",
+    args.sessionDir,
+    ...(args.resume ? ["--resume"] : []),
+    ...(args.budget?.maxInputTokens != null ? ["--max-input-tokens", String(args.budget.maxInputTokens)] : []),
+    ...(args.budget?.maxOutputTokens != null ? ["--max-output-tokens", String(args.budget.maxOutputTokens)] : []),
+    ...(args.budget?.maxCostUsd != null ? ["--max-cost", String(args.budget.maxCostUsd)] : []),
+    ...(args.priceTable ? ["--price-table", args.priceTable] : []),
+    ...(args.checkpointBranch ? ["--checkpoint-branch", args.checkpointBranch] : []),
+    ...(args.verifyCommand ? ["--verify-command", args.verifyCommand] : []),
+    ...(args.verifyCommand && args.verifyTimeoutSec ? ["--verify-timeout", String(args.verifyTimeoutSec)] : []),
+    ...(args.completionSignal ? ["--completion-signal", args.completionSignal] : []),
+    ...Object.entries(args.stall ?? {}).flatMap(([key, value]) => [
+      STALL_FLAGS[key as keyof StallThresholds],
+      String(value),
+    ]),
+    ...policyToArgs(args.policy),
+    ...(args.promptsDir ? ["--prompts-dir", args.promptsDir] : []),
+    ...(args.backend ? ["--backend", args.backend] : []),
+    ...(args.record ? ["--record", args.record] : []),
+    ...(args.pipeline ? ["--pipeline", JSON.stringify(args.pipeline)] : []),
+    ...(args.parallel && args.parallel > 1 ? ["--parallel", String(args.parallel)] : []),
+    ...(args.reviewPlan ? ["--review-plan"] : []),
+    ...(args.pauseEvery ? ["--pause-every", String(args.pauseEvery)] : []),
+    ...Object.entries(args.vars ?? {}).flatMap(([key, value]) => ["--var", `${key}=${value}`]),
+  ];
+}
+
+export function spawnLoopRunner(runtimeRoot: string, args: LoopRunnerArgs): LoopRunnerChild {
+  const loopRunner = resolveLoopRunner(runtimeRoot);
+  const child = spawn(
+    loopRunner.command,
+    [...loopRunner.args, ...buildLoopRunnerArgs(args), "--events-fd", String(LOOP_EVENTS_FD)],
+    {
+      cwd: runtimeRoot,
+      env: process.env,
+      stdio: ["pipe", "pipe", "pipe", "pipe"],
+    },
+  );
+  return Object.assign(child, {
+    stdout: child.stdout!,
+    stderr: child.stderr!,
+    events: child.stdio[LOOP_EVENTS_FD] as Readable,
+  });
+}
+
+export function onLines(stream: Readable, onLine: (line: string) => void): void {
+  let pending = "";
+  stream.on("data", (data: Buffer) => {
+    const lines = (pending + data.toString()).split(/\r?\n/);
+    pending = lines.pop() ?? "";
+    lines.filter(Boolean).forEach(onLine);
+  });
+  stream.on("end", () => {
+    if (pending) onLine(pending);
+  });
+}
+
+export function sessionStatusFromExit(code: number | null, signal: NodeJS.Signals | null): SessionStatus {
+  if (signal === "SIGTERM" || signal === "SIGINT") return "stopped";
+  if (code === LOOP_EXIT.done) return "succeeded";
+  if (code === LOOP_EXIT.maxIterations) return "max-iterations";
+  if (code === LOOP_EXIT.budgetExhausted) return "budget-exhausted";
+  if (code === LOOP_EXIT.stalled) return "stalled";
+  if (code === LOOP_EXIT.awaitingApproval) return "awaiting-approval";
+  return "failed";
+}
+
+export function exitCodeForStatus(status: SessionStatus): number {
+  switch (status) {
+    case "succeeded":
+      return 0;
+    case "max-iterations":
+      return LOOP_EXIT.maxIterations;
+    case "budget-exhausted":
+      return LOOP_EXIT.budgetExhausted;
+    case "stalled":
+      return LOOP_EXIT.stalled;
+    case "awaiting-approval":
+      return LOOP_EXIT.awaitingApproval;
+    case "stopped":
+      return 130;
+    default:
+      return LOOP_EXIT.failed;
+  }
+}
+
+export function matchThreadId(line: string): string | undefined {
+  return line.match(/thread:\s*([0-9a-zA-Z-]+)/)?.[1];
+}
+
+function outcomeFile(stateDir: string): string {
+  return path.join(stateDir, "outcome.json");
+}
+
+export function writeLoopOutcome(stateDir: string, outcome: LoopOutcome): void {
+  fs.writeFileSync(outcomeFile(stateDir), JSON.stringify(outcome, null, 2), "utf8");
+}
+
+export function readLoopOutcome(stateDir: string): LoopOutcome | null {
+  try {
+    return JSON.parse(fs.readFileSync(outcomeFile(stateDir), "utf8")) as LoopOutcome;
+  } catch {
+    return null;
+  }
+}
+
+export function clearLoopOutcome(stateDir: string): void {
+  fs.rmSync(outcomeFile(stateDir), { force: true });
+}
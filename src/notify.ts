@@ -0,0 +1,257 @@
+import fs from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import type { SessionRecord } from "./sessions.js";
+
+export const NOTIFY_EVENTS = [
+  "session.started",
+  "session.succeeded",
+  "session.failed",
+  "session.stopped",
+  "session.stalled",
+  "session.budget-exhausted",
+  "session.max-iterations",
+  "session.awaiting-approval",
+  "session.rejected",
+] as const;
+
+export type NotifyEvent = (typeof NOTIFY_EVENTS)[number];
+
+export type WebhookSink = {
+  url: string;
+  headers?: Record<string, string>;
+  // Defaults to the config-wide `events`.
+  events?: NotifyEvent[];
+};
+
+export type NotifyConfig = {
+  webhooks?: WebhookSink[];
+  // Run through the shell with the payload on stdin and MILHOUSE_* variables set; desktop
+  // notifications are one line away, e.g. `notify-send "Milhouse" "$MILHOUSE_SUMMARY"`.
+  command?: string;
+  // Events to send; all of them when unset.
+  events?: NotifyEvent[];
+  // Extra webhook attempts after the first one fails.
+  retries?: number;
+};
+
+export type NotificationPayload = {
+  event: NotifyEvent;
+  summary: string;
+  session: SessionRecord;
+  sentAt: string;
+};
+
+export type DeliveryAttempt = {
+  at: string;
+  event: NotifyEvent;
+  sessionId: string;
+  sink: string;
+  attempt: number;
+  ok: boolean;
+  // HTTP status for webhooks, exit code for the command hook.
+  status?: number | null;
+  error?: string;
+  durationMs: number;
+};
+
+export type NotifyOptions = {
+  stateBaseDir: string;
+  log?: (line: string) => void;
+};
+
+const DEFAULT_RETRIES = 3;
+const MAX_RETRIES = 10;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const COMMAND_TIMEOUT_MS = 30_000;
+
+export function deliveryLogPath(stateBaseDir: string): string {
+  return path.join(stateBaseDir, "notifications.log");
+}
+
+function parseEvents(value: unknown, where: string): NotifyEvent[] {
+  if (!Array.isArray(value)) throw new Error(`${where} must be an array of events`);
+  return value.map((e) => {
+    const event = NOTIFY_EVENTS.find((known) => known === e);
+    if (!event) throw new Error(`unknown event ${String(e)} in ${where} (expected ${NOTIFY_EVENTS.join(", ")})`);
+    return event;
+  });
+}
+
+function parseWebhook(value: unknown, index: number): WebhookSink {
+  const raw = typeof value === "string" ? { url: value } : value;
+  if (!raw || typeof raw !== "object") throw new Error(`webhooks[${index}] must be a URL or { url, headers, events }`);
+  const { url, headers, events } = raw as Record<string, unknown>;
+  if (typeof url !== "string" || !/^https?:\/\//.test(url)) throw new Error(`webhooks[${index}].url must be an http(s) URL`);
+  const sink: WebhookSink = { url };
+  if (headers != null) {
+    if (typeof headers !== "object" || Object.values(headers).some((v) => typeof v !== "string")) {
+      throw new Error(`webhooks[${index}].headers must map names to strings`);
+    }
+    sink.headers = headers as Record<string, string>;
+  }
+  if (events != null) sink.events = parseEvents(events, `webhooks[${index}].events`);
+  return sink;
+}
+
+export function parseNotifyConfig(input: unknown): NotifyConfig {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("expected an object with webhooks, command, events or retries");
+  }
+  const raw = input as Record<string, unknown>;
+  const unknown = Object.keys(raw).filter((k) => !["webhooks", "command", "events", "retries"].includes(k));
+  if (unknown.length) throw new Error(`unknown key ${unknown.join(", ")}`);
+  const config: NotifyConfig = {};
+  if (raw.webhooks != null) {
+    if (!Array.isArray(raw.webhooks)) throw new Error("webhooks must be an array");
+    config.webhooks = raw.webhooks.map(parseWebhook);
+  }
+  if (raw.command != null && raw.command !== "") {
+    if (typeof raw.command !== "string") throw new Error("command must be a string");
+    config.command = raw.command;
+  }
+  if (raw.events != null) config.events = parseEvents(raw.events, "events");
+  if (raw.retries != null) {
+    const retries = Number(raw.retries);
+    if (!Number.isInteger(retries) || retries < 0 || retries > MAX_RETRIES) {
+      throw new Error(`retries must be an integer between 0 and ${MAX_RETRIES}`);
+    }
+    config.retries = retries;
+  }
+  return config;
+}
+
+// `running` means the session just started (or resumed); `queued` has nothing to report.
+export function sessionEvent(session: SessionRecord): NotifyEvent | null {
+  if (session.status === "queued") return null;
+  return session.status === "running" ? "session.started" : `session.${session.status}`;
+}
+
+export function summarizeSession(event: NotifyEvent, session: SessionRecord): string {
+  const goal = session.goal.split("\n")[0].slice(0, 80);
+  if (event === "session.started") return `Milhouse run started: ${goal} (${session.workdir})`;
+  const parts = [`Milhouse run ${session.status}: ${goal}`];
+  if (session.reason) parts.push(session.reason);
+  if (session.usage) parts.push(`~$${session.usage.costUsd.toFixed(2)}`);
+  return parts.join(" • ");
+}
+
+function recordAttempt(options: NotifyOptions, attempt: DeliveryAttempt) {
+  try {
+    fs.mkdirSync(options.stateBaseDir, { recursive: true });
+    fs.appendFileSync(deliveryLogPath(options.stateBaseDir), `${JSON.stringify(attempt)}\n`);
+  } catch {
+    // Logging must never break a run.
+  }
+  const outcome = attempt.ok ? "ok" : `failed${attempt.error ? `: ${attempt.error}` : ""}`;
+  const status = attempt.status != null ? ` (${attempt.status})` : "";
+  options.log?.(`[notify] ${attempt.event} → ${attempt.sink} attempt ${attempt.attempt}: ${outcome}${status}`);
+}
+
+export function readDeliveryLog(stateBaseDir: string, limit = 100): DeliveryAttempt[] {
+  const file = deliveryLogPath(stateBaseDir);
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .slice(-limit)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as DeliveryAttempt];
+      } catch {
+        return [];
+      }
+    });
+}
+
+// 4xx other than 408/429 will not get better on a retry.
+function isRetryable(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+async function deliverWebhook(sink: WebhookSink, payload: NotificationPayload, retries: number, options: NotifyOptions) {
+  for (let attempt = 1; attempt <= retries + 1; attempt += 1) {
+    const started = Date.now();
+    const base = { at: new Date().toISOString(), event: payload.event, sessionId: payload.session.id, sink: sink.url, attempt };
+    let retry = true;
+    try {
+      const res = await fetch(sink.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "User-Agent": "milhouse", ...sink.headers },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      recordAttempt(options, { ...base, ok: res.ok, status: res.status, durationMs: Date.now() - started });
+      if (res.ok) return;
+      retry = isRetryable(res.status);
+    } catch (err) {
+      recordAttempt(options, { ...base, ok: false, error: (err as Error).message, durationMs: Date.now() - started });
+    }
+    if (!retry || attempt > retries) return;
+    await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+  }
+}
+
+async function runCommandHook(command: string, payload: NotificationPayload, options: NotifyOptions) {
+  const started = Date.now();
+  const { session } = payload;
+  const base = { at: new Date().toISOString(), event: payload.event, sessionId: session.id, sink: "command", attempt: 1 };
+  await new Promise<void>((resolve) => {
+    const child = spawn(command, {
+      cwd: session.workdir,
+      shell: true,
+      stdio: ["pipe", "ignore", "pipe"],
+      env: {
+        ...process.env,
+        MILHOUSE_EVENT: payload.event,
+        MILHOUSE_SUMMARY: payload.summary,
+        MILHOUSE_SESSION_ID: session.id,
+        MILHOUSE_STATUS: session.status,
+        MILHOUSE_WORKDIR: session.workdir,
+      },
+    });
+    let stderr = "";
+    child.stderr.on("data", (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-500);
+    });
+    const timer = setTimeout(() => child.kill("SIGKILL"), COMMAND_TIMEOUT_MS);
+    const finish = (code: number | null, error?: string) => {
+      clearTimeout(timer);
+      const ok = code === 0;
+      const detail = error ?? (ok ? undefined : stderr.trim() || undefined);
+      recordAttempt(options, { ...base, ok, status: code, error: detail, durationMs: Date.now() - started });
+      resolve();
+    };
+    child.on("error", (err) => finish(null, err.message));
+    child.on("close", (code) => finish(code));
+    child.stdin.on("error", () => {
+      // The hook may exit without reading stdin.
+    });
+    child.stdin.end(JSON.stringify(payload));
+  });
+}
+
+// Resolves once every sink has succeeded or given up; never throws.
+export async function sendNotifications(
+  config: NotifyConfig | undefined,
+  session: SessionRecord,
+  options: NotifyOptions,
+): Promise<void> {
+  const event = sessionEvent(session);
+  if (!config || !event) return;
+  const wanted = (events: NotifyEvent[] | undefined) => !events || events.includes(event);
+  const payload: NotificationPayload = {
+    event,
+    summary: summarizeSession(event, session),
+    // Retries go out after the live record has moved on.
+    session: structuredClone(session),
+    sentAt: new Date().toISOString(),
+  };
+  const retries = config.retries ?? DEFAULT_RETRIES;
+  const deliveries = (config.webhooks ?? [])
+    .filter((sink) => wanted(sink.events ?? config.events))
+    .map((sink) => deliverWebhook(sink, payload, retries, options));
+  if (config.command && wanted(config.events)) deliveries.push(runCommandHook(config.command, payload, options));
+  await Promise.all(deliveries);
+}
@@ -0,0 +1,66 @@
+import path from "node:path";
+import { parseChecklist } from "./plan.js";
+
+// Upper bound for a session's concurrency limit; every worker is a separate agent and worktree.
+export const MAX_PARALLEL_BUILDERS = 8;
+
+export function parseParallelLimit(value: unknown): number {
+  const parsed = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PARALLEL_BUILDERS) {
+    throw new Error(`expected an integer between 1 and ${MAX_PARALLEL_BUILDERS}`);
+  }
+  return parsed;
+}
+
+// "no-changes": the turn left the worktree as it was, so there was nothing to merge.
+export type WorkerStatus = "merged" | "conflict" | "no-changes" | "failed";
+
+// What became of one parallel builder; stored with the worker's iteration.
+export type WorkerSummary = {
+  // 1-based within its fan-out.
+  id: number;
+  item: string;
+  branch: string;
+  status: WorkerStatus;
+  // Paths that conflicted when merging back; the worker's branch is kept for a manual merge.
+  conflicts?: string[];
+  error?: string;
+};
+
+// The first unchecked items, up to the session's limit.
+export function pickParallelItems(plan: string, limit: number): string[] {
+  return parseChecklist(plan)
+    .filter((item) => !item.done)
+    .slice(0, limit)
+    .map((item) => item.text);
+}
+
+export function workerBranchName(sessionBranch: string, index: number): string {
+  return `${sessionBranch}-w${index}`;
+}
+
+export function workerWorktreeDir(stateDir: string, index: number): string {
+  return path.join(stateDir, "worktrees", String(index));
+}
+
+// Appended to the phase prompt: the worker owns one item, and the loop ticks it once the work merges.
+export function workerInstructions(item: string, workers: number): string {
+  return [
+    `You are one of ${workers} builders working in parallel, each in its own git worktree.`,
+    `Work only on this plan item: ${item}`,
+    "Do not edit the plan file and do not commit; the loop commits your changes and checks the item off once they merge.",
+  ].join("\n");
+}
+
+export function describeWorker(worker: WorkerSummary): string {
+  switch (worker.status) {
+    case "merged":
+      return `w${worker.id} merged: ${worker.item}`;
+    case "conflict":
+      return `w${worker.id} conflicts in ${worker.conflicts?.join(", ")}; kept ${worker.branch}: ${worker.item}`;
+    case "no-changes":
+      return `w${worker.id} made no changes: ${worker.item}`;
+    case "failed":
+      return `w${worker.id} failed (${worker.error}): ${worker.item}`;
+  }
+}
@@ -5,7 +5,10 @@ import path from "node:path";
 export function resolveStateBaseDir(env: NodeJS.ProcessEnv = process.env): string {
   const override = env.MILHOUSE_STATE_DIR?.trim() || env.MILLHOUSE_STATE_DIR?.trim();
   if (override) return path.resolve(override);
+  return defaultStateBaseDir();
+}
 
+export function defaultStateBaseDir(): string {
   const newDir = envPaths("milhouse").data;
   const oldDir = envPaths("millhouse").data;
   if (fs.existsSync(oldDir) && !fs.existsSync(newDir)) return oldDir;
@@ -0,0 +1,150 @@
+import fs from "node:fs";
+import { DEFAULT_PHASE_POLICY, isPolicyPhase, parsePhasePolicy, type AgentPolicy, type PhasePolicy } from "./policy.js";
+
+export type PhaseRun = "once" | "each-iteration";
+
+// "plan-done": the loop ends after one of the phase's turns once the plan says `STATUS: DONE` (or the
+// session's completion signal is in the response). "never": the phase does not end the loop.
+export type PhaseExit = "plan-done" | "never";
+
+export type PipelinePhase = {
+  // Also the name shown in logs, events and the timeline.
+  name: string;
+  // Template looked up as `<prompt>.md` in the prompt directories.
+  prompt: string;
+  // Once-phases before the first each-iteration phase run at the start; those after the last one run when
+  // the loop has finished successfully.
+  run: PhaseRun;
+  exit: PhaseExit;
+  // Also ends the loop when the phase's response contains this exact line, e.g. "LGTM".
+  exitSignal?: string;
+  // "own" gives the phase a thread of its own, e.g. a reviewer that should not share the builder's context.
+  thread: "shared" | "own";
+  // Runs the session's verify command after each turn; a failure is fed back to the phase's next turn.
+  verify: boolean;
+  // With parallel builders on, each turn of the phase becomes one worker per unchecked plan item, each in its
+  // own git worktree; see src/parallel.ts.
+  parallel: boolean;
+  policy?: PhasePolicy;
+};
+
+export type PipelineStages = {
+  start: PipelinePhase[];
+  loop: PipelinePhase[];
+  end: PipelinePhase[];
+};
+
+export const DEFAULT_PIPELINE: PipelinePhase[] = [
+  { name: "plan", prompt: "plan", run: "once", exit: "never", thread: "shared", verify: false, parallel: false },
+  {
+    name: "build",
+    prompt: "build",
+    run: "each-iteration",
+    exit: "plan-done",
+    thread: "shared",
+    verify: true,
+    parallel: true,
+  },
+];
+
+const PHASE_NAME = /^[a-z][a-z0-9-]*$/;
+const PHASE_KEYS = ["name", "prompt", "run", "exit", "exitSignal", "thread", "verify", "parallel", "policy"];
+
+function parsePhase(raw: unknown, where: string): PipelinePhase {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const input = raw as Record<string, unknown>;
+  const unknown = Object.keys(input).filter((k) => !PHASE_KEYS.includes(k));
+  if (unknown.length) throw new Error(`${where}: unknown key ${unknown.join(", ")}`);
+
+  const { name, prompt = name, run, exit = "never", exitSignal, thread = "shared", verify = false, parallel = false } = input;
+  if (typeof name !== "string" || !PHASE_NAME.test(name)) {
+    throw new Error(`${where}.name must be lowercase letters, digits and dashes`);
+  }
+  if (typeof prompt !== "string" || !PHASE_NAME.test(prompt)) throw new Error(`${where}.prompt must be a template name`);
+  if (run !== "once" && run !== "each-iteration") throw new Error(`${where}.run must be "once" or "each-iteration"`);
+  if (exit !== "plan-done" && exit !== "never") throw new Error(`${where}.exit must be "plan-done" or "never"`);
+  if (exitSignal != null && (typeof exitSignal !== "string" || !exitSignal.trim())) {
+    throw new Error(`${where}.exitSignal must be a non-empty string`);
+  }
+  if (run === "once" && (exit !== "never" || exitSignal != null)) {
+    throw new Error(`${where}: only each-iteration phases can end the loop`);
+  }
+  if (thread !== "shared" && thread !== "own") throw new Error(`${where}.thread must be "shared" or "own"`);
+  if (typeof verify !== "boolean") throw new Error(`${where}.verify must be true or false`);
+  if (typeof parallel !== "boolean") throw new Error(`${where}.parallel must be true or false`);
+  if (run === "once" && parallel) throw new Error(`${where}: only each-iteration phases can run in parallel`);
+  let policy: PhasePolicy | undefined;
+  try {
+    policy = parsePhasePolicy(input.policy);
+  } catch (err) {
+    throw new Error(`${where}.policy: ${(err as Error).message}`);
+  }
+  return {
+    name,
+    prompt,
+    run,
+    exit,
+    ...(typeof exitSignal === "string" ? { exitSignal } : {}),
+    thread,
+    verify,
+    parallel,
+    ...(policy ? { policy } : {}),
+  };
+}
+
+export function splitPipeline(pipeline: PipelinePhase[]): PipelineStages {
+  const first = pipeline.findIndex((p) => p.run === "each-iteration");
+  if (first < 0) return { start: pipeline, loop: [], end: [] };
+  const last = pipeline.length - 1 - [...pipeline].reverse().findIndex((p) => p.run === "each-iteration");
+  return { start: pipeline.slice(0, first), loop: pipeline.slice(first, last + 1), end: pipeline.slice(last + 1) };
+}
+
+export function parsePipeline(value: unknown): PipelinePhase[] {
+  if (!Array.isArray(value) || !value.length) throw new Error("expected a non-empty array of phases");
+  const pipeline = value.map((raw, i) => parsePhase(raw, `[${i}]`));
+  const seen = new Set<string>();
+  for (const phase of pipeline) {
+    if (seen.has(phase.name)) throw new Error(`phase "${phase.name}" is declared twice`);
+    seen.add(phase.name);
+  }
+  if (splitPipeline(pipeline).loop.some((p) => p.run === "once")) {
+    throw new Error("once phases go before or after the phases that run each iteration");
+  }
+  return pipeline;
+}
+
+export function loadPipelineFile(file: string): PipelinePhase[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read pipeline ${file}: ${(err as Error).message}`);
+  }
+  try {
+    return parsePipeline(raw);
+  } catch (err) {
+    throw new Error(`Invalid pipeline in ${file}: ${(err as Error).message}`);
+  }
+}
+
+// Phases named `plan` and `build` start from the session's policy for that phase; a policy set on the phase wins.
+export function resolvePipelinePolicy(phase: PipelinePhase, policy: AgentPolicy | undefined): PhasePolicy {
+  return { ...DEFAULT_PHASE_POLICY, ...(isPolicyPhase(phase.name) ? policy?.[phase.name] : {}), ...phase.policy };
+}
+
+export function describePipeline(pipeline: PipelinePhase[]): string {
+  return pipeline
+    .map((phase) => {
+      const notes = [
+        phase.run === "once" ? "once" : "each iteration",
+        ...(phase.prompt !== phase.name ? [`prompt ${phase.prompt}`] : []),
+        ...(phase.exit === "plan-done" ? ["exits when the plan is done"] : []),
+        ...(phase.exitSignal ? [`exits on "${phase.exitSignal}"`] : []),
+        ...(phase.thread === "own" ? ["own thread"] : []),
+        ...(phase.verify ? ["verified"] : []),
+        ...(phase.parallel ? ["parallel"] : []),
+      ];
+      return `${phase.name} (${notes.join(", ")})`;
+    })
+    .join(" → ");
+}
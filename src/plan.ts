@@ -0,0 +1,117 @@
+export type ChecklistItem = {
+  text: string;
+  done: boolean;
+};
+
+export type ParsedPlan = {
+  // The 1–2 sentence scope summary the planner writes above the checklist.
+  summary: string;
+  items: ChecklistItem[];
+  // Value of the last `STATUS:` line, e.g. "READY" or "DONE".
+  status: string | null;
+  completed: number;
+  total: number;
+  percent: number;
+};
+
+export type ChecklistChanges = {
+  completed: string[];
+  reopened: string[];
+  added: string[];
+  removed: string[];
+};
+
+const CHECKLIST_LINE = /^\s*[-*]\s+\[([ xX])\]\s+(.*)$/;
+const STATUS_LINE = /^[\s>*_`#-]*STATUS:\s*`?([A-Za-z_-]+)/;
+
+export function parseChecklist(planText: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  for (const line of planText.split(/\r?\n/)) {
+    const match = line.match(CHECKLIST_LINE);
+    if (match) items.push({ done: match[1] !== " ", text: match[2].trim() });
+  }
+  return items;
+}
+
+function parseStatus(lines: string[]): string | null {
+  for (let i = lines.length - 1; i >= 0; i -= 1) {
+    const match = lines[i].match(STATUS_LINE);
+    if (match) return match[1].toUpperCase();
+  }
+  return null;
+}
+
+// First paragraph of prose, skipping headings, checklist items and the status line.
+function parseSummary(lines: string[]): string {
+  const paragraph: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const prose = trimmed && !trimmed.startsWith("#") && !CHECKLIST_LINE.test(line) && !STATUS_LINE.test(line);
+    if (prose) paragraph.push(trimmed);
+    else if (paragraph.length) break;
+  }
+  return paragraph.join(" ");
+}
+
+export function parsePlan(planText: string): ParsedPlan {
+  const lines = planText.split(/\r?\n/);
+  const items = parseChecklist(planText);
+  const status = parseStatus(lines);
+  const completed = items.filter((i) => i.done).length;
+  const percent = items.length ? Math.round((completed / items.length) * 100) : status === "DONE" ? 100 : 0;
+  return { summary: parseSummary(lines), items, status, completed, total: items.length, percent };
+}
+
+export function isPlanDone(planText: string): boolean {
+  return parsePlan(planText).status === "DONE";
+}
+
+// Items checked off between two versions of the plan, matched by their text.
+export function newlyCompleted(before: string, after: string): string[] {
+  return checklistChanges(before, after).completed;
+}
+
+export function checklistChanges(before: string, after: string): ChecklistChanges {
+  const previous = new Map(parseChecklist(before).map((i) => [i.text, i.done]));
+  const current = parseChecklist(after);
+  const changes: ChecklistChanges = { completed: [], reopened: [], added: [], removed: [] };
+  for (const item of current) {
+    const wasDone = previous.get(item.text);
+    if (wasDone === undefined) {
+      // New items that arrive already checked still count as completed work.
+      if (item.done) changes.completed.push(item.text);
+      else changes.added.push(item.text);
+    } else if (item.done && !wasDone) {
+      changes.completed.push(item.text);
+    } else if (!item.done && wasDone) {
+      changes.reopened.push(item.text);
+    }
+  }
+  const remaining = new Set(current.map((i) => i.text));
+  changes.removed = [...previous.keys()].filter((text) => !remaining.has(text));
+  return changes;
+}
+
+// Ticks the unchecked items with these texts; returns the texts that had no unchecked item.
+export function checkOffItems(planText: string, texts: string[]): { plan: string; missing: string[] } {
+  const pending = new Set(texts.map((t) => t.trim()));
+  const lines = planText.split("\n").map((line) => {
+    const match = line.match(CHECKLIST_LINE);
+    if (!match || match[1] !== " " || !pending.has(match[2].trim())) return line;
+    pending.delete(match[2].trim());
+    return line.replace("[ ]", "[x]");
+  });
+  return { plan: lines.join("\n"), missing: [...pending] };
+}
+
+// Rewrites the last STATUS line, or appends one.
+export function setPlanStatus(planText: string, status: string): string {
+  const lines = planText.split("\n");
+  for (let i = lines.length - 1; i >= 0; i -= 1) {
+    if (STATUS_LINE.test(lines[i])) {
+      lines[i] = `STATUS: ${status}`;
+      return lines.join("\n");
+    }
+  }
+  return `${planText.replace(/\n*$/, "")}\n\nSTATUS: ${status}\n`;
+}
@@ -0,0 +1,137 @@
+import type { ApprovalMode, SandboxMode } from "@openai/codex-sdk";
+
+export type PhasePolicy = {
+  sandboxMode?: SandboxMode;
+  approvalPolicy?: ApprovalMode;
+  networkAccessEnabled?: boolean;
+  webSearchEnabled?: boolean;
+};
+
+// The built-in phases, which take policy flags; other pipeline phases carry their own policy.
+export type PolicyPhase = "plan" | "build";
+
+// Planner and builder are configured separately, e.g. a read-only planner and a workspace-write builder.
+export type AgentPolicy = Partial<Record<PolicyPhase, PhasePolicy>>;
+
+export const SANDBOX_MODES: SandboxMode[] = ["read-only", "workspace-write", "danger-full-access"];
+export const APPROVAL_MODES: ApprovalMode[] = ["never", "on-request", "on-failure", "untrusted"];
+const PHASES: PolicyPhase[] = ["plan", "build"];
+
+// Network and web search stay unset so Codex applies its own defaults.
+export const DEFAULT_PHASE_POLICY: PhasePolicy = {
+  sandboxMode: "workspace-write",
+  approvalPolicy: "never",
+};
+
+const POLICY_FLAGS: Record<string, keyof PhasePolicy> = {
+  sandbox: "sandboxMode",
+  approval: "approvalPolicy",
+  network: "networkAccessEnabled",
+  "web-search": "webSearchEnabled",
+};
+
+export function parseSandboxMode(value: string): SandboxMode {
+  const mode = SANDBOX_MODES.find((m) => m === value);
+  if (!mode) throw new Error(`Invalid sandbox mode: ${value} (expected ${SANDBOX_MODES.join(", ")})`);
+  return mode;
+}
+
+export function parseApprovalMode(value: string): ApprovalMode {
+  const mode = APPROVAL_MODES.find((m) => m === value);
+  if (!mode) throw new Error(`Invalid approval policy: ${value} (expected ${APPROVAL_MODES.join(", ")})`);
+  return mode;
+}
+
+export function parseToggle(name: string, value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === "on" || value === "true") return true;
+  if (value === "off" || value === "false") return false;
+  throw new Error(`Invalid ${name}: ${String(value)} (expected on or off)`);
+}
+
+function parsePolicyValue(key: keyof PhasePolicy, value: unknown): PhasePolicy[keyof PhasePolicy] {
+  switch (key) {
+    case "sandboxMode":
+      return parseSandboxMode(String(value));
+    case "approvalPolicy":
+      return parseApprovalMode(String(value));
+    default:
+      return parseToggle(key, value);
+  }
+}
+
+function setPolicyValue(policy: AgentPolicy, phases: PolicyPhase[], key: keyof PhasePolicy, value: unknown) {
+  const parsed = parsePolicyValue(key, value);
+  for (const phase of phases) policy[phase] = { ...policy[phase], [key]: parsed };
+}
+
+// Handles `--sandbox`, `--plan-sandbox`, `--build-network` and friends; returns false for any other flag.
+export function applyPolicyFlag(policy: AgentPolicy, flag: string, value: string | undefined): boolean {
+  const match = flag.match(/^--(?:(plan|build)-)?(sandbox|approval|network|web-search)$/);
+  if (!match) return false;
+  if (!value) throw new Error(`Missing value for ${flag}`);
+  const phases = match[1] ? [match[1] as PolicyPhase] : PHASES;
+  setPolicyValue(policy, phases, POLICY_FLAGS[match[2]], value);
+  return true;
+}
+
+export function policyToArgs(policy: AgentPolicy | undefined): string[] {
+  const args: string[] = [];
+  for (const phase of PHASES) {
+    for (const [name, key] of Object.entries(POLICY_FLAGS)) {
+      const value = policy?.[phase]?.[key];
+      if (value == null) continue;
+      args.push(`--${phase}-${name}`, typeof value === "boolean" ? (value ? "on" : "off") : value);
+    }
+  }
+  return args;
+}
+
+// One phase's `{ sandboxMode, approvalPolicy, networkAccessEnabled, webSearchEnabled }`.
+export function parsePhasePolicy(input: unknown): PhasePolicy | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const policy: PhasePolicy = {};
+  for (const key of Object.values(POLICY_FLAGS)) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value == null || value === "") continue;
+    Object.assign(policy, { [key]: parsePolicyValue(key, value) });
+  }
+  return Object.keys(policy).length ? policy : undefined;
+}
+
+// Request input is untrusted: `{ plan: { sandboxMode, ... }, build: { ... } }`.
+export function parseAgentPolicy(input: unknown): AgentPolicy | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const policy: AgentPolicy = {};
+  for (const phase of PHASES) {
+    const parsed = parsePhasePolicy((input as Record<string, unknown>)[phase]);
+    if (parsed) policy[phase] = parsed;
+  }
+  return Object.keys(policy).length ? policy : undefined;
+}
+
+// Later layers win per field.
+export function mergePolicies(...layers: (AgentPolicy | undefined)[]): AgentPolicy | undefined {
+  const merged: AgentPolicy = {};
+  for (const layer of layers) {
+    for (const phase of PHASES) {
+      if (layer?.[phase]) merged[phase] = { ...merged[phase], ...layer[phase] };
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+}
+
+export function resolvePhasePolicy(policy: AgentPolicy | undefined, phase: PolicyPhase): PhasePolicy {
+  return { ...DEFAULT_PHASE_POLICY, ...policy?.[phase] };
+}
+
+export function isPolicyPhase(name: string): name is PolicyPhase {
+  return (PHASES as string[]).includes(name);
+}
+
+export function describePhasePolicy(phase: string, policy: PhasePolicy): string {
+  const toggle = (v: boolean | undefined) => (v == null ? "default" : v ? "on" : "off");
+  return `${phase} policy: sandbox=${policy.sandboxMode}, approval=${policy.approvalPolicy}, network=${toggle(
+    policy.networkAccessEnabled,
+  )}, web-search=${toggle(policy.webSearchEnabled)}`;
+}
@@ -0,0 +1,109 @@
+import envPaths from "env-paths";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export type PromptPhase = "plan" | "build";
+
+export type PromptSource = "config" | "project" | "user" | "bundled";
+
+export type ResolvedTemplate = {
+  // The template name; pipelines can use templates beyond the built-in phases.
+  phase: string;
+  path: string;
+  source: PromptSource;
+};
+
+export type TemplateVars = Record<string, string>;
+
+export const PROMPT_PHASES: PromptPhase[] = ["plan", "build"];
+
+const VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function findPackageRoot(fromDir: string): string {
+  const candidates = [
+    // When running from `src/`
+    path.resolve(fromDir, ".."),
+    // When running from `dist/src/`
+    path.resolve(fromDir, "..", ".."),
+  ];
+
+  for (const candidate of candidates) {
+    const plan = path.join(candidate, "prompts", "plan.md");
+    const build = path.join(candidate, "prompts", "build.md");
+    if (fs.existsSync(plan) && fs.existsSync(build)) {
+      return candidate;
+    }
+  }
+
+  return path.resolve(fromDir, "..", "..");
+}
+
+export function resolvePackageRoot(): string {
+  return findPackageRoot(path.dirname(fileURLToPath(import.meta.url)));
+}
+
+export function projectPromptsDir(workdir: string): string {
+  return path.join(workdir, ".milhouse", "prompts");
+}
+
+export function userPromptsDir(env: NodeJS.ProcessEnv = process.env): string {
+  const override = env.MILHOUSE_PROMPTS_DIR?.trim();
+  if (override) return path.resolve(override);
+  return path.join(envPaths("milhouse").config, "prompts");
+}
+
+export function bundledPromptsDir(): string {
+  return path.join(resolvePackageRoot(), "prompts");
+}
+
+// Search order: a configured `promptsDir`, the workdir's `.milhouse/prompts/`, the user's prompts dir, then the bundled defaults.
+export function promptSearchPath(workdir: string, promptsDir?: string): { dir: string; source: PromptSource }[] {
+  return [
+    ...(promptsDir ? [{ dir: promptsDir, source: "config" as const }] : []),
+    { dir: projectPromptsDir(workdir), source: "project" },
+    { dir: userPromptsDir(), source: "user" },
+    { dir: bundledPromptsDir(), source: "bundled" },
+  ];
+}
+
+export function resolvePromptTemplate(phase: string, workdir: string, promptsDir?: string): ResolvedTemplate {
+  const file = `${phase}.md`;
+  const searchPath = promptSearchPath(workdir, promptsDir);
+  for (const { dir, source } of searchPath) {
+    const candidate = path.join(dir, file);
+    if (fs.existsSync(candidate)) return { phase, path: candidate, source };
+  }
+  throw new Error(`No ${file} prompt template found (looked in ${searchPath.map((p) => p.dir).join(", ")})`);
+}
+
+export function renderTemplate(template: string, vars: TemplateVars): string {
+  let next = template;
+  for (const [key, value] of Object.entries(vars)) {
+    next = next.replaceAll(`{{${key}}}`, value);
+  }
+  return next;
+}
+
+export function unresolvedPlaceholders(rendered: string): string[] {
+  return [...new Set([...rendered.matchAll(/\{\{([A-Za-z_][A-Za-z0-9_]*)\}\}/g)].map((m) => m[1]))];
+}
+
+export function parseVarAssignment(input: string): [string, string] {
+  const eq = input.indexOf("=");
+  const key = eq > 0 ? input.slice(0, eq).trim() : "";
+  if (!VAR_NAME.test(key)) throw new Error(`Invalid template variable "${input}" (expected NAME=value)`);
+  return [key, input.slice(eq + 1)];
+}
+
+// Request/config input is untrusted; keep only well-formed names with string values.
+export function normalizeVars(input: unknown): TemplateVars | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const vars: TemplateVars = {};
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!VAR_NAME.test(key)) throw new Error(`Invalid template variable name: ${key}`);
+    if (value == null) continue;
+    vars[key] = String(value);
+  }
+  return Object.keys(vars).length ? vars : undefined;
+}
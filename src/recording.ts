@@ -0,0 +1,170 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import type { ThreadEvent, ThreadOptions, Usage } from "@openai/codex-sdk";
+import { REPLAY_PREFIX, type AgentBackend, type AgentThread } from "./agentBackend.js";
+import { initRepo } from "./git.js";
+import type { SessionRecord } from "./sessions.js";
+
+// One agent turn as the loop saw it, one JSON line per turn in `recordings/<session id>.jsonl`. Parallel
+// builders finish in any order, so lines are appended as turns end and sorted by index on reading.
+export type RecordedTurn = {
+  index: number;
+  at: string;
+  prompt: string;
+  // The thread the turn resumed; unset for the plan turn's fresh thread.
+  resumedThreadId?: string;
+  threadOptions: ThreadOptions;
+  events: ThreadEvent[];
+  result: {
+    threadId: string | null;
+    finalResponse: string;
+    usage: Usage | null;
+    // Set when the turn failed or the event stream threw.
+    error?: string;
+  };
+  // The plan file after the turn, so a replay sees the plan the loop saw.
+  plan?: string;
+};
+
+export function recordingPath(session: Pick<SessionRecord, "id" | "stateDir">): string {
+  return path.join(session.stateDir, "recordings", `${session.id}.jsonl`);
+}
+
+export function readRecording(file: string): RecordedTurn[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (err) {
+    throw new Error(`Could not read recording ${file}: ${(err as Error).message}`);
+  }
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as RecordedTurn;
+      } catch {
+        throw new Error(`Invalid recording ${file}: line ${i + 1} is not JSON`);
+      }
+    })
+    .sort((a, b) => a.index - b.index);
+}
+
+// Replays run in a scratch workdir: recorded file changes are not reapplied, and the real project stays untouched.
+// Parallel sessions get an empty git repository there, for their workers' worktrees.
+export function replayWorkdir(stateBaseDir: string, session: SessionRecord): string {
+  const workdir = path.join(stateBaseDir, "replays", randomBytes(6).toString("hex"));
+  fs.mkdirSync(workdir, { recursive: true });
+  if (session.parallel) initRepo(workdir);
+  return workdir;
+}
+
+export type ReplaySettings = Pick<
+  SessionRecord,
+  | "goal"
+  | "maxIterations"
+  | "budget"
+  | "vars"
+  | "completionSignal"
+  | "stall"
+  | "policy"
+  | "promptsDir"
+  | "pipeline"
+  | "parallel"
+> & { backend: string; replayOf: string };
+
+// The original's loop settings, minus what would act on the empty scratch workdir: verification, git
+// checkpoints (unless parallel builders need them) and the no-workdir-changes stall check.
+export function replaySettings(session: SessionRecord): ReplaySettings {
+  const file = recordingPath(session);
+  if (!session.recorded || !fs.existsSync(file)) throw new Error(`Session ${session.id} has no recording`);
+  return {
+    goal: session.goal,
+    maxIterations: session.maxIterations,
+    budget: session.budget,
+    vars: session.vars,
+    completionSignal: session.completionSignal,
+    stall: { ...session.stall, noWorkdirChanges: 0 },
+    policy: session.policy,
+    promptsDir: session.promptsDir,
+    pipeline: session.pipeline,
+    parallel: session.parallel,
+    backend: `${REPLAY_PREFIX}${file}`,
+    replayOf: session.id,
+  };
+}
+
+function readPlan(planPath: string | undefined): string | undefined {
+  if (!planPath) return undefined;
+  try {
+    return fs.readFileSync(planPath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+// Passes every turn through to `inner` and appends what happened to `file` once the turn's stream ends.
+export function createRecordingBackend(inner: AgentBackend, file: string, planPath?: string): AgentBackend {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // A resumed session keeps appending to the same recording.
+  let index = fs.existsSync(file) ? readRecording(file).length : 0;
+
+  function wrap(thread: AgentThread, threadOptions: ThreadOptions, resumedThreadId?: string): AgentThread {
+    async function* record(
+      turnIndex: number,
+      prompt: string,
+      events: AsyncGenerator<ThreadEvent>,
+    ): AsyncGenerator<ThreadEvent> {
+      const seen: ThreadEvent[] = [];
+      const result: RecordedTurn["result"] = { threadId: null, finalResponse: "", usage: null };
+      try {
+        for await (const event of events) {
+          seen.push(event);
+          if (event.type === "item.completed" && event.item.type === "agent_message") {
+            result.finalResponse = event.item.text;
+          } else if (event.type === "turn.completed") {
+            result.usage = event.usage;
+          } else if (event.type === "turn.failed") {
+            result.error = event.error.message;
+          }
+          yield event;
+        }
+      } catch (err) {
+        result.error = (err as Error).message;
+        throw err;
+      } finally {
+        result.threadId = thread.id;
+        const turn: RecordedTurn = {
+          index: turnIndex,
+          at: new Date().toISOString(),
+          prompt,
+          ...(resumedThreadId ? { resumedThreadId } : {}),
+          threadOptions,
+          events: seen,
+          result,
+          plan: readPlan(planPath),
+        };
+        fs.appendFileSync(file, `${JSON.stringify(turn)}\n`);
+      }
+    }
+
+    return {
+      get id() {
+        return thread.id;
+      },
+      runStreamed: async (input) => {
+        // Numbered when the turn starts, the order the replay backend hands turns out in.
+        const turnIndex = index++;
+        const { events } = await thread.runStreamed(input);
+        return { events: record(turnIndex, input, events) };
+      },
+    };
+  }
+
+  return {
+    name: inner.name,
+    startThread: (options) => wrap(inner.startThread(options), options),
+    resumeThread: (id, options) => wrap(inner.resumeThread(id, options), options, id),
+  };
+}
@@ -0,0 +1,56 @@
+import fs from "node:fs";
+import type { ThreadEvent } from "@openai/codex-sdk";
+import type { AgentBackend, AgentThread, BackendContext } from "./agentBackend.js";
+import { readRecording } from "./recording.js";
+
+// Plays a recording's turns back in order, whatever prompt the loop sends; nothing reaches Codex.
+export function createReplayBackend(file: string, context: BackendContext = {}): AgentBackend {
+  const turns = readRecording(file);
+  if (!turns.length) throw new Error(`Recording ${file} has no turns`);
+  let played = 0;
+
+  function thread(resumedId: string | null): AgentThread {
+    let id = resumedId;
+
+    async function* play(index: number): AsyncGenerator<ThreadEvent> {
+      const turn = turns[index];
+      if (!turn) {
+        const message = `Recording ${file} has no turn ${index + 1} (it has ${turns.length})`;
+        yield { type: "turn.failed", error: { message } };
+        return;
+      }
+      id = turn.result.threadId ?? id;
+      // Restored before the turn ends, which is when the loop reads the plan.
+      const restorePlan = () => {
+        if (turn.plan != null && context.planPath) fs.writeFileSync(context.planPath, turn.plan, "utf8");
+      };
+      let restored = false;
+      for (const event of turn.events) {
+        if (!restored && (event.type === "turn.completed" || event.type === "turn.failed")) {
+          restorePlan();
+          restored = true;
+        }
+        yield event;
+      }
+      if (!restored) restorePlan();
+      // The stream threw rather than reporting turn.failed.
+      if (turn.result.error && !turn.events.some((e) => e.type === "turn.failed")) {
+        throw new Error(turn.result.error);
+      }
+    }
+
+    return {
+      get id() {
+        return id;
+      },
+      // Taken when the turn starts, so parallel builders get their turns in the order they were recorded.
+      runStreamed: async () => ({ events: play(played++) }),
+    };
+  }
+
+  return {
+    name: "replay",
+    startThread: () => thread(null),
+    resumeThread: (id) => thread(id),
+  };
+}
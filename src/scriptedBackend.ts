@@ -0,0 +1,217 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import type { CommandExecutionItem, FileChangeItem, ThreadEvent, ThreadOptions, Usage } from "@openai/codex-sdk";
+import type { AgentBackend, AgentThread, BackendContext } from "./agentBackend.js";
+import { checkOffItems, setPlanStatus } from "./plan.js";
+
+export type ScriptedCommand = {
+  command: string;
+  output?: string;
+  exitCode?: number;
+};
+
+// One agent turn. Edits are applied in order: files, then the plan.
+export type ScriptedTurn = {
+  // The agent's final message; for the plan turn it can be the plan itself.
+  response?: string;
+  // Relative to the workdir; null deletes the file.
+  files?: Record<string, string | null>;
+  // Replaces the plan file.
+  plan?: string;
+  // Checklist items to tick in the plan, by their text.
+  check?: string[];
+  // Sets (or adds) the plan's STATUS line, e.g. "DONE".
+  status?: string;
+  // Reported as command executions; nothing is actually run.
+  commands?: ScriptedCommand[];
+  usage?: Partial<Usage>;
+  // Ends the turn with turn.failed and this message.
+  fail?: string;
+  // Pause before the turn completes, to watch a run in the UI.
+  delayMs?: number;
+};
+
+export type AgentScript = {
+  // Played one per agent turn across the session; the first is the plan turn.
+  turns: ScriptedTurn[];
+  // Once the turns run out, replay the last one instead of failing.
+  repeatLast?: boolean;
+};
+
+const TURN_KEYS = ["response", "files", "plan", "check", "status", "commands", "usage", "fail", "delayMs"];
+
+function parseTurn(raw: unknown, where: string): ScriptedTurn {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const turn = raw as Record<string, unknown>;
+  const unknown = Object.keys(turn).filter((k) => !TURN_KEYS.includes(k));
+  if (unknown.length) throw new Error(`${where}: unknown key ${unknown.join(", ")}`);
+  for (const key of ["response", "plan", "status", "fail"]) {
+    if (turn[key] != null && typeof turn[key] !== "string") throw new Error(`${where}.${key} must be a string`);
+  }
+  if (turn.files != null) {
+    if (typeof turn.files !== "object" || Array.isArray(turn.files)) {
+      throw new Error(`${where}.files must map paths to contents`);
+    }
+    for (const [file, content] of Object.entries(turn.files)) {
+      if (content !== null && typeof content !== "string") {
+        throw new Error(`${where}.files["${file}"] must be a string or null`);
+      }
+    }
+  }
+  if (turn.check != null && (!Array.isArray(turn.check) || turn.check.some((t) => typeof t !== "string"))) {
+    throw new Error(`${where}.check must be an array of item texts`);
+  }
+  if (turn.commands != null) {
+    if (!Array.isArray(turn.commands)) throw new Error(`${where}.commands must be an array`);
+    turn.commands.forEach((c, i) => {
+      if (typeof c?.command !== "string") throw new Error(`${where}.commands[${i}].command must be a string`);
+    });
+  }
+  if (turn.delayMs != null && (typeof turn.delayMs !== "number" || turn.delayMs < 0)) {
+    throw new Error(`${where}.delayMs must be a non-negative number`);
+  }
+  return turn as ScriptedTurn;
+}
+
+export function loadScript(file: string): AgentScript {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read script ${file}: ${(err as Error).message}`);
+  }
+  try {
+    const turns = (raw as Record<string, unknown> | null)?.turns;
+    if (!Array.isArray(turns) || !turns.length) throw new Error("expected { turns: [...] } with at least one turn");
+    return {
+      turns: turns.map((t, i) => parseTurn(t, `turns[${i}]`)),
+      repeatLast: Boolean((raw as Record<string, unknown>).repeatLast),
+    };
+  } catch (err) {
+    throw new Error(`Invalid script ${file}: ${(err as Error).message}`);
+  }
+}
+
+function writeWorkdirFile(workdir: string, file: string, content: string | null) {
+  const root = path.resolve(workdir);
+  const target = path.resolve(root, file);
+  if (!target.startsWith(root + path.sep)) throw new Error(`Script path escapes the workdir: ${file}`);
+  if (content === null) {
+    fs.rmSync(target, { force: true });
+    return;
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content, "utf8");
+}
+
+function editPlan(planPath: string, turn: ScriptedTurn) {
+  let plan = turn.plan ?? (fs.existsSync(planPath) ? fs.readFileSync(planPath, "utf8") : "");
+  if (turn.check?.length) {
+    const checked = checkOffItems(plan, turn.check);
+    if (checked.missing.length) throw new Error(`Plan has no unchecked item: ${checked.missing.join("; ")}`);
+    plan = checked.plan;
+  }
+  if (turn.status) plan = setPlanStatus(plan, turn.status);
+  fs.writeFileSync(planPath, plan, "utf8");
+}
+
+// Thread ids carry the number of turns played so far, so a resumed run (a new process) picks up where it stopped.
+function parseThreadId(id: string): { base: string; played: number } {
+  const match = id.match(/^(.*)-(\d+)$/);
+  if (!match) throw new Error(`Not a scripted thread id: ${id}`);
+  return { base: match[1], played: Number(match[2]) };
+}
+
+export function createScriptedBackend(file: string, context: BackendContext = {}): AgentBackend {
+  const script = loadScript(file);
+  // Counted across threads: pipeline phases with threads of their own still take the next turn.
+  let played = context.turnsPlayed ?? 0;
+
+  function thread(base: string, resumedAt: number, options: ThreadOptions): AgentThread {
+    let id: string | null = resumedAt > 0 ? `${base}-${resumedAt}` : null;
+    played = Math.max(played, resumedAt);
+    const workdir = options.workingDirectory ?? process.cwd();
+
+    async function* play(index: number): AsyncGenerator<ThreadEvent> {
+      id = `${base}-${index + 1}`;
+      yield { type: "thread.started", thread_id: id };
+      yield { type: "turn.started" };
+
+      const turn = script.turns[index] ?? (script.repeatLast ? script.turns[script.turns.length - 1] : undefined);
+      if (!turn) {
+        const message = `Script ${file} has no turn ${index + 1} (it has ${script.turns.length})`;
+        yield { type: "turn.failed", error: { message } };
+        return;
+      }
+      let item = 0;
+      const nextId = () => `item_${item++}`;
+      try {
+        for (const command of turn.commands ?? []) {
+          const started: CommandExecutionItem = {
+            id: nextId(),
+            type: "command_execution",
+            command: command.command,
+            aggregated_output: "",
+            status: "in_progress",
+          };
+          yield { type: "item.started", item: started };
+          const exitCode = command.exitCode ?? 0;
+          const status = exitCode === 0 ? "completed" : "failed";
+          const output = command.output ?? "";
+          yield { type: "item.completed", item: { ...started, aggregated_output: output, exit_code: exitCode, status } };
+        }
+        const changes: FileChangeItem["changes"] = [];
+        for (const [name, content] of Object.entries(turn.files ?? {})) {
+          const existed = fs.existsSync(path.resolve(workdir, name));
+          writeWorkdirFile(workdir, name, content);
+          changes.push({ path: name, kind: content === null ? "delete" : existed ? "update" : "add" });
+        }
+        if (turn.plan != null || turn.check?.length || turn.status) {
+          if (!context.planPath) throw new Error("Script edits the plan, but this run has no plan file");
+          editPlan(context.planPath, turn);
+          changes.push({ path: context.planPath, kind: "update" });
+        }
+        if (changes.length) {
+          yield { type: "item.completed", item: { id: nextId(), type: "file_change", changes, status: "completed" } };
+        }
+        if (turn.delayMs) await new Promise((resolve) => setTimeout(resolve, turn.delayMs));
+      } catch (err) {
+        yield { type: "turn.failed", error: { message: (err as Error).message } };
+        return;
+      }
+      if (turn.fail) {
+        yield { type: "turn.failed", error: { message: turn.fail } };
+        return;
+      }
+      if (turn.response != null) {
+        yield { type: "item.completed", item: { id: nextId(), type: "agent_message", text: turn.response } };
+      }
+      yield {
+        type: "turn.completed",
+        usage: {
+          input_tokens: turn.usage?.input_tokens ?? 0,
+          cached_input_tokens: turn.usage?.cached_input_tokens ?? 0,
+          output_tokens: turn.usage?.output_tokens ?? 0,
+        },
+      };
+    }
+
+    return {
+      get id() {
+        return id;
+      },
+      // Taken when the turn starts, so parallel builders play their turns in the order they were started.
+      runStreamed: async () => ({ events: play(played++) }),
+    };
+  }
+
+  return {
+    name: "scripted",
+    startThread: (options) => thread(`scripted-${randomBytes(4).toString("hex")}`, 0, options),
+    resumeThread: (id, options) => {
+      const { base, played } = parseThreadId(id);
+      return thread(base, played, options);
+    },
+  };
+}
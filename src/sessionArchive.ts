@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import path from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { recordingPath } from "./recording.js";
+import {
+  findSession,
+  isSessionStatus,
+  isStateDirReused,
+  readSessions,
+  sessionDataDir,
+  sessionLogPath,
+  upsertSession,
+  type SessionRecord,
+} from "./sessions.js";
+
+// A gzipped JSON document, so it can be opened with nothing but `gunzip` and a text editor.
+export type SessionArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: SessionRecord;
+  // True when a later session on the same workdir has overwritten the shared state dir since.
+  stateDirReused: boolean;
+  // Paths relative to the session's state dir; everything in there is text.
+  files: Record<string, string>;
+};
+
+const ARCHIVE_FORMAT = "milhouse-session";
+const ARCHIVE_VERSION = 1;
+
+const STATE_FILES = ["thread_id", "phase_threads.json", "IMPLEMENTATION_PLAN.md", "outcome.json"];
+// Rendered prompt and last output of each pipeline phase, e.g. build_prompt.md and build_out.log.
+const PHASE_FILE = /^[a-z][a-z0-9-]*_(prompt\.md|out\.log)$/;
+
+export function archiveFileName(session: SessionRecord): string {
+  return `milhouse-session-${session.id.slice(0, 8)}.json.gz`;
+}
+
+// Accepts a full id or an unambiguous prefix, as printed by `milhouse run`.
+export function resolveSessionId(stateBaseDir: string, idOrPrefix: string): SessionRecord {
+  const exact = findSession(stateBaseDir, idOrPrefix);
+  if (exact) return exact;
+  const matches = readSessions(stateBaseDir).filter((s) => s.id.startsWith(idOrPrefix));
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) throw new Error(`Session id prefix ${idOrPrefix} is ambiguous`);
+  throw new Error(`Session not found: ${idOrPrefix}`);
+}
+
+function readTree(root: string, dir: string, files: Record<string, string>) {
+  if (!fs.existsSync(dir)) return;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) readTree(root, full, files);
+    else if (entry.isFile()) files[path.relative(root, full).split(path.sep).join("/")] = fs.readFileSync(full, "utf8");
+  }
+}
+
+export function buildSessionArchive(session: SessionRecord): SessionArchive {
+  const { stateDir } = session;
+  const files: Record<string, string> = {};
+  const phaseFiles = fs.existsSync(stateDir) ? fs.readdirSync(stateDir).filter((name) => PHASE_FILE.test(name)) : [];
+  for (const name of [...STATE_FILES, ...phaseFiles]) {
+    const file = path.join(stateDir, name);
+    if (fs.existsSync(file)) files[name] = fs.readFileSync(file, "utf8");
+  }
+  readTree(stateDir, sessionDataDir(session), files);
+  for (const file of [sessionLogPath(session), recordingPath(session)]) {
+    if (fs.existsSync(file)) files[path.relative(stateDir, file).split(path.sep).join("/")] = fs.readFileSync(file, "utf8");
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+    stateDirReused: isStateDirReused(session),
+    files,
+  };
+}
+
+export function exportSession(session: SessionRecord): Buffer {
+  return gzipSync(JSON.stringify(buildSessionArchive(session)));
+}
+
+export function parseSessionArchive(data: Buffer): SessionArchive {
+  let archive: SessionArchive;
+  try {
+    archive = JSON.parse(gunzipSync(data).toString("utf8"));
+  } catch (err) {
+    throw new Error(`Not a Milhouse session archive: ${(err as Error).message}`);
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || typeof archive.session?.id !== "string" || !archive.files) {
+    throw new Error("Not a Milhouse session archive");
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error(`Session archive version ${archive.version} is newer than this Milhouse supports`);
+  }
+  return archive;
+}
+
+// Imported state gets its own dir so it never collides with a local workdir's state.
+export function importedStateDir(stateBaseDir: string, id: string): string {
+  return path.join(stateBaseDir, "imported", id);
+}
+
+// Archives written before sessions had their own data dir keep iterations and usage at the top.
+function importPath(name: string, id: string): string {
+  return name === "usage.json" || name.startsWith("iterations/") ? `sessions/${id}/${name}` : name;
+}
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === "string";
+const isNumber: FieldCheck = (value) => typeof value === "number" && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === "boolean";
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const arrayOf =
+  (check: FieldCheck): FieldCheck =>
+  (value) =>
+    Array.isArray(value) && value.every(check);
+const recordOf =
+  (check: FieldCheck): FieldCheck =>
+  (value) =>
+    isObject(value) && Object.values(value).every(check);
+const isUsage: FieldCheck = (value) =>
+  isObject(value) &&
+  ["inputTokens", "cachedInputTokens", "outputTokens", "turns", "costUsd"].every((key) => isNumber(value[key]));
+const isCheckpoint: FieldCheck = (value) => isObject(value) && isNumber(value.iteration) && isString(value.sha);
+
+type ArchivedField = Exclude<keyof SessionRecord, "id" | "stateDir" | "status" | "importedAt">;
+
+// Everything an archive may carry besides the fields set on import; anything else is dropped.
+const ARCHIVED_FIELDS: Record<ArchivedField, FieldCheck> = {
+  goal: isString,
+  maxIterations: isNumber,
+  workdir: isString,
+  startedAt: isString,
+  endedAt: isString,
+  queuedAt: isString,
+  scheduleId: isString,
+  threadId: isString,
+  resumedAt: arrayOf(isString),
+  budget: recordOf(isNumber),
+  usage: isUsage,
+  reason: isString,
+  gitCheckpoints: isBoolean,
+  branch: isString,
+  checkpoints: arrayOf(isCheckpoint),
+  rolledBackTo: isNumber,
+  verifyCommand: isString,
+  verifyTimeoutSec: isNumber,
+  verification: isObject,
+  vars: recordOf(isString),
+  completionSignal: isString,
+  stall: recordOf(isNumber),
+  policy: isObject,
+  promptsDir: isString,
+  backend: isString,
+  recorded: isBoolean,
+  replayOf: isString,
+  reviewPlan: isBoolean,
+  pauseEvery: isNumber,
+  pipeline: arrayOf(isObject),
+  parallel: isNumber,
+  turns: arrayOf(isObject),
+};
+const REQUIRED_FIELDS: ArchivedField[] = ["goal", "maxIterations", "workdir", "startedAt"];
+
+// The archive may come from anyone, and the UI renders these fields; build the record field by field.
+function sessionFromArchive(archived: Record<string, unknown>, stateDir: string): SessionRecord {
+  const { id, status } = archived;
+  if (!isSessionStatus(status)) throw new Error(`Invalid session status in archive: ${String(status)}`);
+  const session: Record<string, unknown> = {
+    id,
+    stateDir,
+    // A run that was live or waiting at export time will never go on here.
+    status: status === "running" || status === "queued" || status === "awaiting-approval" ? "stopped" : status,
+    importedAt: new Date().toISOString(),
+  };
+  for (const [field, check] of Object.entries(ARCHIVED_FIELDS) as [ArchivedField, FieldCheck][]) {
+    const value = archived[field];
+    if (value === undefined && !REQUIRED_FIELDS.includes(field)) continue;
+    if (!check(value)) throw new Error(`Invalid session field in archive: ${field}`);
+    session[field] = value;
+  }
+  return session as SessionRecord;
+}
+
+export function importSession(stateBaseDir: string, data: Buffer): SessionRecord {
+  const archive = parseSessionArchive(data);
+  const { id } = archive.session;
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid session id in archive: ${id}`);
+  if (findSession(stateBaseDir, id)) throw new Error(`Session ${id} is already in the history`);
+
+  const stateDir = path.resolve(importedStateDir(stateBaseDir, id));
+  const session = sessionFromArchive(archive.session, stateDir);
+  for (const [name, content] of Object.entries(archive.files)) {
+    const target = path.resolve(stateDir, importPath(name, id));
+    if (!target.startsWith(stateDir + path.sep) || typeof content !== "string") {
+      throw new Error(`Refusing to import unsafe path from archive: ${name}`);
+    }
+  }
+  fs.mkdirSync(stateDir, { recursive: true });
+  for (const [name, content] of Object.entries(archive.files)) {
+    const target = path.resolve(stateDir, importPath(name, id));
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content, "utf8");
+  }
+
+  upsertSession(stateBaseDir, session);
+  return session;
+}
@@ -0,0 +1,222 @@
+import fs from "node:fs";
+import path from "node:path";
+import { listIterations } from "./iterations.js";
+import type { PipelinePhase } from "./pipeline.js";
+import type { AgentPolicy } from "./policy.js";
+import type { TemplateVars } from "./prompts.js";
+import type { StallThresholds } from "./stall.js";
+import { readUsageLedger, type BudgetLimits, type UsageTotals } from "./usage.js";
+
+export type SessionStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "stopped"
+  | "max-iterations"
+  | "budget-exhausted"
+  | "stalled"
+  // Paused for a human to approve (and maybe edit) the plan; approving resumes the loop.
+  | "awaiting-approval"
+  | "rejected";
+
+const SESSION_STATUSES: Record<SessionStatus, true> = {
+  queued: true,
+  running: true,
+  succeeded: true,
+  failed: true,
+  stopped: true,
+  "max-iterations": true,
+  "budget-exhausted": true,
+  stalled: true,
+  "awaiting-approval": true,
+  rejected: true,
+};
+
+export function isSessionStatus(value: unknown): value is SessionStatus {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(SESSION_STATUSES, value);
+}
+
+export type SessionRecord = {
+  id: string;
+  goal: string;
+  maxIterations: number;
+  workdir: string;
+  stateDir: string;
+  // For a queued session, when it was enqueued; replaced once it starts.
+  startedAt: string;
+  endedAt?: string;
+  status: SessionStatus;
+  // Set when the session came from the run queue.
+  queuedAt?: string;
+  // The schedule that started this session, if any.
+  scheduleId?: string;
+  // Set on sessions brought in with `milhouse import`; they are read-only (no resume or rollback).
+  importedAt?: string;
+  threadId?: string;
+  // Set each time a stopped or failed session is resumed; the record keeps its id.
+  resumedAt?: string[];
+  budget?: BudgetLimits;
+  usage?: UsageTotals;
+  // Why the loop ended, when the status alone doesn't say (e.g. which budget limit was hit).
+  reason?: string;
+  gitCheckpoints?: boolean;
+  branch?: string;
+  checkpoints?: Checkpoint[];
+  rolledBackTo?: number;
+  verifyCommand?: string;
+  verifyTimeoutSec?: number;
+  // Outcome of the most recent verification run; full output lives with the iteration.
+  verification?: VerificationSummary;
+  // User-defined prompt template variables, substituted as {{NAME}}.
+  vars?: TemplateVars;
+  // Extra exit condition from the spec form: the build turn's response contains this line.
+  completionSignal?: string;
+  // Overrides for the loop runner's stall thresholds; unset keys use the defaults.
+  stall?: Partial<StallThresholds>;
+  // Sandbox / approval / network / web-search settings per phase; unset fields use the defaults.
+  policy?: AgentPolicy;
+  promptsDir?: string;
+  // Agent backend spec when not Codex, e.g. "scripted:/path/to/fixture.json".
+  backend?: string;
+  // Every agent turn is saved to the session's recording, see recordingPath.
+  recorded?: boolean;
+  // Set on a replay of another session's recording; replays run once and cannot be resumed.
+  replayOf?: string;
+  // Pause for approval once the plan is written, before the first build.
+  reviewPlan?: boolean;
+  // Pause for approval after every this many loop iterations.
+  pauseEvery?: number;
+  // Custom phases; unset means plan then build.
+  pipeline?: PipelinePhase[];
+  // Concurrency limit for parallel builders; such sessions always have git checkpoints.
+  parallel?: number;
+  // The phase of every agent turn so far, in order.
+  turns?: TurnSummary[];
+};
+
+export type TurnSummary = {
+  index: number;
+  phase: string;
+  worker?: number;
+};
+
+export type VerificationSummary = {
+  iteration: number;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+};
+
+export type Checkpoint = {
+  iteration: number;
+  sha: string;
+};
+
+export function sessionsFilePath(stateBaseDir: string): string {
+  return path.join(stateBaseDir, "sessions.json");
+}
+
+export function resolveSessionStateDir(stateBaseDir: string, workdir: string): string {
+  return path.join(stateBaseDir, Buffer.from(workdir).toString("base64url"));
+}
+
+export function readSessions(stateBaseDir: string): SessionRecord[] {
+  const file = sessionsFilePath(stateBaseDir);
+  if (!fs.existsSync(file)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSessions(stateBaseDir: string, update: (sessions: SessionRecord[]) => SessionRecord[]): void {
+  const next = update(readSessions(stateBaseDir));
+  fs.writeFileSync(sessionsFilePath(stateBaseDir), JSON.stringify(next, null, 2));
+}
+
+export function upsertSession(stateBaseDir: string, session: SessionRecord): void {
+  saveSessions(stateBaseDir, (sessions) =>
+    sessions.some((s) => s.id === session.id)
+      ? sessions.map((s) => (s.id === session.id ? session : s))
+      : [...sessions, session],
+  );
+}
+
+export function removeSession(stateBaseDir: string, id: string): void {
+  saveSessions(stateBaseDir, (sessions) => sessions.filter((s) => s.id !== id));
+}
+
+export function findSession(stateBaseDir: string, id: string): SessionRecord | undefined {
+  return readSessions(stateBaseDir).find((s) => s.id === id);
+}
+
+// The captured log stream of one session; state dirs are shared per workdir, so it is keyed by id.
+export function sessionLogPath(session: Pick<SessionRecord, "id" | "stateDir">): string {
+  return path.join(session.stateDir, "logs", `${session.id}.log`);
+}
+
+// Iterations and usage of one session. The rest of the state dir (plan, threads) is shared by every session on
+// the workdir and belongs to whichever ran last.
+export function sessionDataDir(session: Pick<SessionRecord, "id" | "stateDir">): string {
+  return path.join(session.stateDir, "sessions", session.id);
+}
+
+export function readStoredThreadId(stateDir: string): string | undefined {
+  try {
+    return fs.readFileSync(path.join(stateDir, "thread_id"), "utf8").trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// True once a later session on the same workdir has overwritten the shared state files.
+export function isStateDirReused(session: SessionRecord): boolean {
+  const stored = readStoredThreadId(session.stateDir);
+  return Boolean(session.threadId && stored && stored !== session.threadId);
+}
+
+export function appendSessionLog(session: Pick<SessionRecord, "id" | "stateDir">, line: string): void {
+  const file = sessionLogPath(session);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${line}\n`);
+  } catch {
+    // A full disk should not take the run down with it.
+  }
+}
+
+export function assertWritable(session: SessionRecord): void {
+  if (session.importedAt) throw new Error("Imported sessions are read-only");
+  if (session.replayOf) throw new Error("Replays are read-only; replay the original session again instead");
+}
+
+export function sessionBranchName(id: string): string {
+  return `milhouse/session-${id.slice(0, 8)}`;
+}
+
+// Pulls what the loop runner has written for the session (usage totals, checkpoints) into the record.
+export function syncSessionFromState(session: SessionRecord): SessionRecord {
+  const dataDir = sessionDataDir(session);
+  const ledger = readUsageLedger(dataDir);
+  if (ledger) session.usage = ledger.session;
+  const iterations = listIterations(dataDir);
+  session.turns = iterations.map((it) => ({
+    index: it.index,
+    phase: it.phase,
+    ...(it.worker ? { worker: it.worker.id } : {}),
+  }));
+  if (session.gitCheckpoints) {
+    session.checkpoints = iterations
+      .filter((it) => it.checkpoint)
+      .map((it) => ({ iteration: it.index, sha: it.checkpoint! }));
+  }
+  const verified = iterations.filter((it) => it.verification).pop();
+  if (verified?.verification) {
+    const { passed, exitCode, timedOut } = verified.verification;
+    session.verification = { iteration: verified.index, passed, exitCode, timedOut };
+  }
+  return session;
+}
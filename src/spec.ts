@@ -0,0 +1,93 @@
+import fs from "node:fs";
+import path from "node:path";
+import { resolvePackageRoot } from "./prompts.js";
+
+export type SpecField = {
+  name: string;
+  // Text the template puts in front of the placeholder, e.g. "TECH STACK — Framework(s)".
+  label: string;
+  // Placeholder sits on its own line, so the answer may span several lines.
+  multiline: boolean;
+  required: boolean;
+};
+
+export type SpecValues = Record<string, string>;
+
+export const COMPLETION_SIGNAL_FIELD = "COMPLETION_SIGNAL";
+const REQUIRED_FIELDS = new Set(["PRIMARY_GOAL"]);
+const PLACEHOLDER = /\{([A-Z][A-Z0-9_]*)\}/g;
+const NOT_SPECIFIED = "Not specified";
+// A blank signal falls back to the plan's own done marker, which the loop already watches for.
+export const DEFAULT_COMPLETION_SIGNAL = "STATUS: DONE";
+const FIELD_DEFAULTS: Record<string, string> = { [COMPLETION_SIGNAL_FIELD]: DEFAULT_COMPLETION_SIGNAL };
+
+export function specTemplatePath(): string {
+  return path.join(resolvePackageRoot(), "input-prompt.md");
+}
+
+export function loadSpecTemplate(): string {
+  const file = specTemplatePath();
+  if (!fs.existsSync(file)) throw new Error(`Spec template not found: ${file}`);
+  return fs.readFileSync(file, "utf8");
+}
+
+function humanize(heading: string): string {
+  return heading.replace(/:\s*$/, "").trim();
+}
+
+export function parseSpecTemplate(template: string): SpecField[] {
+  const fields: SpecField[] = [];
+  const seen = new Set<string>();
+  let heading = "";
+
+  for (const line of template.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (/^[A-Z][A-Z0-9 &/()'-]*:$/.test(trimmed)) {
+      heading = humanize(trimmed);
+      continue;
+    }
+    for (const match of trimmed.matchAll(PLACEHOLDER)) {
+      const name = match[1];
+      if (seen.has(name)) continue;
+      seen.add(name);
+      const prefix = trimmed.slice(0, match.index).replace(/^[-*]\s*/, "").replace(/:\s*$/, "").trim();
+      fields.push({
+        name,
+        label: prefix ? (heading ? `${heading} — ${prefix}` : prefix) : heading || name,
+        multiline: trimmed === match[0],
+        required: REQUIRED_FIELDS.has(name),
+      });
+    }
+  }
+  return fields;
+}
+
+export function renderSpec(template: string, fields: SpecField[], values: SpecValues): string {
+  const missing = fields.filter((f) => f.required && !values[f.name]?.trim()).map((f) => f.name);
+  if (missing.length) throw new Error(`Missing required spec fields: ${missing.join(", ")}`);
+  return template.replace(PLACEHOLDER, (whole, name: string) => {
+    if (!fields.some((f) => f.name === name)) return whole;
+    return values[name]?.trim() || FIELD_DEFAULTS[name] || NOT_SPECIFIED;
+  });
+}
+
+// Request input is untrusted; only known fields with string-able values are kept.
+export function normalizeSpecValues(input: unknown, fields: SpecField[]): SpecValues {
+  if (!input || typeof input !== "object") throw new Error("spec must be an object of field values");
+  const known = new Set(fields.map((f) => f.name));
+  const values: SpecValues = {};
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!known.has(key)) throw new Error(`Unknown spec field: ${key}`);
+    if (value == null) continue;
+    values[key] = String(value);
+  }
+  return values;
+}
+
+// The agent is told to output the signal exactly, so match it as a whole line of the response.
+export function hasCompletionSignal(response: string, signal: string): boolean {
+  const wanted = signal.trim();
+  if (!wanted) return false;
+  if (wanted.includes("\n")) return response.includes(wanted);
+  return response.split(/\r?\n/).some((line) => line.trim() === wanted);
+}
@@ -0,0 +1,119 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { parsePlan } from "./plan.js";
+
+// Consecutive build iterations before the loop gives up; 0 turns a check off.
+export type StallThresholds = {
+  // Plan file byte-identical before and after the turn.
+  planUnchanged: number;
+  // No file in the workdir added, removed or modified by the turn.
+  noWorkdirChanges: number;
+  // Same final response as the previous turn.
+  repeatedResponse: number;
+  // Checklist got longer while nothing new was checked off.
+  checklistGrowth: number;
+};
+
+export type StallObservation = {
+  planBefore: string;
+  planAfter: string;
+  response: string;
+  workdirBefore: string | null;
+  workdirAfter: string | null;
+};
+
+export type StallDetector = {
+  // Returns the stall reason once a threshold is reached.
+  observe: (observation: StallObservation) => string | null;
+};
+
+export const DEFAULT_STALL_THRESHOLDS: StallThresholds = {
+  planUnchanged: 3,
+  noWorkdirChanges: 3,
+  repeatedResponse: 3,
+  checklistGrowth: 5,
+};
+
+export const STALL_THRESHOLD_KEYS = Object.keys(DEFAULT_STALL_THRESHOLDS) as (keyof StallThresholds)[];
+
+export const IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+// Cheap change detector: hashes path, size and mtime of every file rather than contents.
+export function workdirFingerprint(workdir: string): string | null {
+  const hash = createHash("sha1");
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) walk(full);
+        continue;
+      }
+      try {
+        const stat = fs.lstatSync(full);
+        hash.update(`${path.relative(workdir, full)}\0${stat.size}\0${stat.mtimeMs}\n`);
+      } catch {
+        // Removed while walking.
+      }
+    }
+  };
+  if (!fs.existsSync(workdir)) return null;
+  walk(workdir);
+  return hash.digest("hex");
+}
+
+export function createStallDetector(thresholds: StallThresholds): StallDetector {
+  const streaks: StallThresholds = { planUnchanged: 0, noWorkdirChanges: 0, repeatedResponse: 0, checklistGrowth: 0 };
+  let lastResponse: string | null = null;
+
+  const bump = (key: keyof StallThresholds, stalled: boolean) => {
+    streaks[key] = stalled ? streaks[key] + 1 : 0;
+    return thresholds[key] > 0 && streaks[key] >= thresholds[key];
+  };
+
+  return {
+    observe({ planBefore, planAfter, response, workdirBefore, workdirAfter }) {
+      const before = parsePlan(planBefore);
+      const after = parsePlan(planAfter);
+      const trimmed = response.trim();
+      const repeated = lastResponse !== null && trimmed === lastResponse;
+      lastResponse = trimmed;
+
+      const reasons: string[] = [];
+      if (bump("planUnchanged", planBefore === planAfter)) {
+        reasons.push(`plan unchanged for ${streaks.planUnchanged} iterations`);
+      }
+      if (bump("noWorkdirChanges", workdirBefore !== null && workdirBefore === workdirAfter)) {
+        reasons.push(`no workdir changes for ${streaks.noWorkdirChanges} iterations`);
+      }
+      if (bump("repeatedResponse", repeated)) {
+        reasons.push(`same response ${streaks.repeatedResponse + 1} times in a row`);
+      }
+      if (bump("checklistGrowth", after.total > before.total && after.completed <= before.completed)) {
+        reasons.push(`checklist grew for ${streaks.checklistGrowth} iterations without completing an item`);
+      }
+      return reasons.length ? reasons.join("; ") : null;
+    },
+  };
+}
+
+export function parseStallThresholds(input: unknown): Partial<StallThresholds> | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const raw = input as Record<string, unknown>;
+  const thresholds: Partial<StallThresholds> = {};
+  for (const key of STALL_THRESHOLD_KEYS) {
+    const value = raw[key];
+    if (value == null || value === "") continue;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`Invalid stall.${key}: ${String(value)}`);
+    thresholds[key] = parsed;
+  }
+  return Object.keys(thresholds).length ? thresholds : undefined;
+}
@@ -0,0 +1,121 @@
+// Line-based unified diff (Myers), for workdirs where git cannot produce one.
+type Edit = { op: " " | "-" | "+"; line: string };
+
+const CONTEXT = 3;
+// Past this many edits a whole-file replace reads as well as a minimal diff and costs far less.
+const MAX_EDIT_DISTANCE = 2000;
+
+// Lines keep their terminator so a missing final newline shows up as a change.
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function replaceAll(a: string[], b: string[]): Edit[] {
+  return [...a.map((line): Edit => ({ op: "-", line })), ...b.map((line): Edit => ({ op: "+", line }))];
+}
+
+function myers(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds the furthest x per diagonal after round d, for diagonals -d..d.
+  const trace: Int32Array[] = [];
+  for (let d = 0; d <= n + m; d++) {
+    if (d > MAX_EDIT_DISTANCE) return replaceAll(a, b);
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, d);
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return replaceAll(a, b);
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], distance: number): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = distance; d > 0; d--) {
+    const prev = (k: number) => trace[d - 1][k + d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev(k - 1) < prev(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ op: " ", line: a[--x] });
+      y--;
+    }
+    if (down) edits.push({ op: "+", line: b[--y] });
+    else edits.push({ op: "-", line: a[--x] });
+  }
+  while (x > 0 && y > 0) {
+    edits.push({ op: " ", line: a[--x] });
+    y--;
+  }
+  return edits.reverse();
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const same = (line: string): Edit => ({ op: " ", line });
+  return [
+    ...a.slice(0, prefix).map(same),
+    ...myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(same),
+  ];
+}
+
+function range(start: number, length: number): string {
+  return length === 1 ? String(start) : `${start},${length}`;
+}
+
+function formatLine({ op, line }: Edit): string {
+  return line.endsWith("\n") ? `${op}${line}` : `${op}${line}\n\\ No newline at end of file\n`;
+}
+
+// Hunks only (no file headers); empty when the texts are equal.
+export function unifiedDiff(before: string, after: string): string {
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const changed = edits.flatMap((e, i) => (e.op === " " ? [] : [i]));
+  if (!changed.length) return "";
+
+  // Changes closer than two context windows share a hunk.
+  const groups: [number, number][] = [];
+  for (const i of changed) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] <= 2 * CONTEXT + 1) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  let out = "";
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - CONTEXT);
+    const end = Math.min(edits.length, last + CONTEXT + 1);
+    const lead = edits.slice(0, start);
+    const hunk = edits.slice(start, end);
+    const oldLen = hunk.filter((e) => e.op !== "+").length;
+    const newLen = hunk.filter((e) => e.op !== "-").length;
+    const oldStart = lead.filter((e) => e.op !== "+").length + (oldLen ? 1 : 0);
+    const newStart = lead.filter((e) => e.op !== "-").length + (newLen ? 1 : 0);
+    out += `@@ -${range(oldStart, oldLen)} +${range(newStart, newLen)} @@\n`;
+    out += hunk.map(formatLine).join("");
+  }
+  return out;
+}
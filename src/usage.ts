@@ -0,0 +1,120 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type UsageTotals = {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  turns: number;
+  costUsd: number;
+};
+
+// USD per million tokens. `cachedInput` applies to the cached share of input tokens.
+export type PriceTable = {
+  input: number;
+  cachedInput: number;
+  output: number;
+};
+
+export type BudgetLimits = {
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  maxCostUsd?: number;
+};
+
+export type UsageLedger = {
+  session: UsageTotals;
+  iterations: Record<string, UsageTotals>;
+};
+
+// Rough list prices for the default Codex model; override with --price-table for accurate estimates.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  input: 1.25,
+  cachedInput: 0.125,
+  output: 10,
+};
+
+export function emptyUsage(): UsageTotals {
+  return { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, turns: 0, costUsd: 0 };
+}
+
+function tokenCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+export function estimateCost(input: number, cachedInput: number, output: number, prices: PriceTable): number {
+  const uncached = Math.max(0, input - cachedInput);
+  return (uncached * prices.input + cachedInput * prices.cachedInput + output * prices.output) / 1_000_000;
+}
+
+// `usage` comes straight from RunTurnResult, so it is parsed defensively rather than trusted.
+export function addUsage(totals: UsageTotals, usage: unknown, prices: PriceTable): UsageTotals {
+  const raw = (usage ?? {}) as Record<string, unknown>;
+  const input = tokenCount(raw.input_tokens);
+  const cached = tokenCount(raw.cached_input_tokens);
+  const output = tokenCount(raw.output_tokens);
+  return {
+    inputTokens: totals.inputTokens + input,
+    cachedInputTokens: totals.cachedInputTokens + cached,
+    outputTokens: totals.outputTokens + output,
+    turns: totals.turns + 1,
+    costUsd: totals.costUsd + estimateCost(input, cached, output, prices),
+  };
+}
+
+export function checkBudget(totals: UsageTotals, limits: BudgetLimits): string | null {
+  if (limits.maxInputTokens != null && totals.inputTokens >= limits.maxInputTokens) {
+    return `input tokens ${totals.inputTokens} reached limit ${limits.maxInputTokens}`;
+  }
+  if (limits.maxOutputTokens != null && totals.outputTokens >= limits.maxOutputTokens) {
+    return `output tokens ${totals.outputTokens} reached limit ${limits.maxOutputTokens}`;
+  }
+  if (limits.maxCostUsd != null && totals.costUsd >= limits.maxCostUsd) {
+    return `estimated cost $${totals.costUsd.toFixed(4)} reached limit $${limits.maxCostUsd}`;
+  }
+  return null;
+}
+
+export function loadPriceTable(file: string | undefined): PriceTable {
+  if (!file) return DEFAULT_PRICE_TABLE;
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8")) as Partial<Record<keyof PriceTable, unknown>>;
+  const table = { ...DEFAULT_PRICE_TABLE };
+  for (const key of Object.keys(table) as (keyof PriceTable)[]) {
+    const value = parsed[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid price table ${file}: "${key}" must be a non-negative number (USD per 1M tokens)`);
+    }
+    table[key] = value;
+  }
+  return table;
+}
+
+function usageFile(stateDir: string): string {
+  return path.join(stateDir, "usage.json");
+}
+
+export function readUsageLedger(stateDir: string): UsageLedger | null {
+  try {
+    return JSON.parse(fs.readFileSync(usageFile(stateDir), "utf8")) as UsageLedger;
+  } catch {
+    return null;
+  }
+}
+
+export function writeUsageLedger(stateDir: string, ledger: UsageLedger): void {
+  fs.writeFileSync(usageFile(stateDir), JSON.stringify(ledger, null, 2), "utf8");
+}
+
+export function recordTurnUsage(
+  ledger: UsageLedger,
+  iteration: number,
+  usage: unknown,
+  prices: PriceTable,
+): UsageLedger {
+  const key = String(iteration);
+  return {
+    session: addUsage(ledger.session, usage, prices),
+    iterations: { ...ledger.iterations, [key]: addUsage(ledger.iterations[key] ?? emptyUsage(), usage, prices) },
+  };
+}
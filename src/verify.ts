@@ -0,0 +1,83 @@
+import { spawn } from "node:child_process";
+
+export type VerificationResult = {
+  command: string;
+  exitCode: number | null;
+  passed: boolean;
+  timedOut: boolean;
+  durationMs: number;
+  // Tail of combined stdout/stderr; test runners put the summary at the end.
+  output: string;
+};
+
+export const DEFAULT_VERIFY_TIMEOUT_SEC = 600;
+const OUTPUT_LIMIT = 8000;
+
+function trimOutput(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > OUTPUT_LIMIT ? `…${trimmed.slice(-OUTPUT_LIMIT)}` : trimmed;
+}
+
+export async function runVerification(command: string, workdir: string, timeoutSec: number): Promise<VerificationResult> {
+  const started = Date.now();
+  return await new Promise((resolve) => {
+    // Own process group on POSIX so a timeout also kills whatever the shell started.
+    const child = spawn(command, {
+      cwd: workdir,
+      shell: true,
+      detached: process.platform !== "win32",
+      env: { ...process.env, CI: process.env.CI ?? "1" },
+    });
+    let output = "";
+    let timedOut = false;
+    const append = (data: Buffer) => {
+      output += data.toString();
+      if (output.length > OUTPUT_LIMIT * 4) output = output.slice(-OUTPUT_LIMIT * 2);
+    };
+    child.stdout.on("data", append);
+    child.stderr.on("data", append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid && process.platform !== "win32") process.kill(-child.pid, "SIGKILL");
+        else child.kill("SIGKILL");
+      } catch {
+        // Already gone.
+      }
+    }, timeoutSec * 1000);
+
+    const finish = (exitCode: number | null, error?: string) => {
+      clearTimeout(timer);
+      resolve({
+        command,
+        exitCode,
+        passed: exitCode === 0 && !timedOut,
+        timedOut,
+        durationMs: Date.now() - started,
+        output: trimOutput(error ? `${output}\n${error}` : output),
+      });
+    };
+    child.on("error", (err) => finish(null, err.message));
+    child.on("close", (code) => finish(code));
+  });
+}
+
+export function describeVerification(result: VerificationResult): string {
+  const secs = (result.durationMs / 1000).toFixed(1);
+  if (result.timedOut) return `verify: timed out after ${secs}s (${result.command})`;
+  return `verify: ${result.passed ? "passed" : "failed"} (exit ${result.exitCode ?? "?"}) in ${secs}s`;
+}
+
+// Appended to the next build prompt so the agent sees what broke.
+export function verificationFeedback(result: VerificationResult): string {
+  const what = result.timedOut ? "timed out" : `failed with exit code ${result.exitCode ?? "unknown"}`;
+  return [
+    `VERIFICATION FAILED: \`${result.command}\` ${what} after the last iteration.`,
+    "Fix these failures before picking up new checklist items. The plan is not DONE until verification passes.",
+    "",
+    "```",
+    result.output,
+    "```",
+  ].join("\n");
+}
@@ -0,0 +1,221 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { git, gitOutput, isGitRepo } from "./git.js";
+import { listIterations, readIterationDiff } from "./iterations.js";
+import { IGNORED_DIRS } from "./stall.js";
+import { unifiedDiff } from "./unifiedDiff.js";
+
+export type FileChange = {
+  // Relative to the workdir.
+  path: string;
+  status: "added" | "modified" | "deleted";
+  additions: number;
+  deletions: number;
+  binary?: boolean;
+};
+
+export type WorkspaceChanges = {
+  source: "git" | "manifest";
+  files: FileChange[];
+  // Git trees of the workdir either side of the turn; a whole-session diff is one `git diff` between them.
+  fromTree?: string;
+  toTree?: string;
+  // The stored patch was cut at MAX_PATCH_BYTES.
+  truncated?: boolean;
+};
+
+export type WorkspaceDiff = {
+  changes: WorkspaceChanges;
+  patch: string;
+};
+
+type ManifestEntry = {
+  hash: string;
+  // Null for binary files and files too large to diff.
+  text: string | null;
+};
+
+export type WorkspaceSnapshot =
+  | { source: "git"; tree: string }
+  | { source: "manifest"; files: Map<string, ManifestEntry> };
+
+const MAX_TEXT_BYTES = 1024 * 1024;
+const MAX_PATCH_BYTES = 2 * 1024 * 1024;
+
+// Stages the whole worktree (untracked files included, .gitignore respected) into a throwaway
+// index and writes it as a tree, leaving HEAD, the real index and the worktree alone.
+function gitTree(workdir: string): string {
+  const index = path.join(os.tmpdir(), `milhouse-index-${randomUUID()}`);
+  try {
+    // Starting from the real index lets git skip re-hashing files whose stat info is unchanged.
+    const realIndex = path.resolve(workdir, git(workdir, ["rev-parse", "--git-path", "index"]));
+    if (fs.existsSync(realIndex)) fs.copyFileSync(realIndex, index);
+    const env = { ...process.env, GIT_INDEX_FILE: index };
+    git(workdir, ["add", "-A"], env);
+    return git(workdir, ["write-tree"], env);
+  } finally {
+    fs.rmSync(index, { force: true });
+  }
+}
+
+function readManifest(workdir: string): Map<string, ManifestEntry> {
+  const files = new Map<string, ManifestEntry>();
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) walk(full);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+      try {
+        const data = fs.readFileSync(full);
+        const text = data.length <= MAX_TEXT_BYTES && !data.includes(0) ? data.toString("utf8") : null;
+        const rel = path.relative(workdir, full).split(path.sep).join("/");
+        files.set(rel, { hash: createHash("sha1").update(data).digest("hex"), text });
+      } catch {
+        // Removed while walking.
+      }
+    }
+  };
+  walk(workdir);
+  return files;
+}
+
+export function snapshotWorkspace(workdir: string): WorkspaceSnapshot | null {
+  if (!fs.existsSync(workdir)) return null;
+  if (isGitRepo(workdir)) return { source: "git", tree: gitTree(workdir) };
+  return { source: "manifest", files: readManifest(workdir) };
+}
+
+function gitDiff(workdir: string, fromTree: string, toTree: string): string {
+  // --relative keeps paths (and the diff) to the workdir when it is a subdirectory of the repo.
+  const args = ["diff", "--relative", "--no-color", "--no-ext-diff", "--no-renames", fromTree, toTree];
+  return gitOutput(workdir, ["-c", "core.quotePath=false", ...args]);
+}
+
+function gitChanges(workdir: string, fromTree: string, toTree: string): FileChange[] {
+  const range = ["--relative", "--no-renames", fromTree, toTree];
+  const diff = (format: string) => git(workdir, ["-c", "core.quotePath=false", "diff", format, ...range]);
+  const statuses = new Map(
+    diff("--name-status")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [status, file] = line.split("\t");
+        return [file, status === "A" ? "added" : status === "D" ? "deleted" : "modified"] as const;
+      }),
+  );
+  return diff("--numstat")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [additions, deletions, file] = line.split("\t");
+      const binary = additions === "-";
+      return {
+        path: file,
+        status: statuses.get(file) ?? "modified",
+        additions: binary ? 0 : Number(additions),
+        deletions: binary ? 0 : Number(deletions),
+        ...(binary ? { binary } : {}),
+      };
+    });
+}
+
+function manifestFileDiff(file: string, before: ManifestEntry | undefined, after: ManifestEntry | undefined) {
+  const status: FileChange["status"] = !before ? "added" : !after ? "deleted" : "modified";
+  const header = [`diff --git a/${file} b/${file}`];
+  if (status === "added") header.push("new file mode 100644");
+  if (status === "deleted") header.push("deleted file mode 100644");
+  const from = before ? `a/${file}` : "/dev/null";
+  const to = after ? `b/${file}` : "/dev/null";
+
+  if ((before && before.text == null) || (after && after.text == null)) {
+    header.push(`Binary files ${from} and ${to} differ`);
+    return { change: { path: file, status, additions: 0, deletions: 0, binary: true }, patch: `${header.join("\n")}\n` };
+  }
+  const hunks = unifiedDiff(before?.text ?? "", after?.text ?? "");
+  const lines = hunks.split("\n");
+  const change: FileChange = {
+    path: file,
+    status,
+    additions: lines.filter((l) => l.startsWith("+")).length,
+    deletions: lines.filter((l) => l.startsWith("-")).length,
+  };
+  return { change, patch: `${header.join("\n")}\n--- ${from}\n+++ ${to}\n${hunks}` };
+}
+
+function manifestDiff(before: Map<string, ManifestEntry>, after: Map<string, ManifestEntry>): WorkspaceDiff {
+  const files: FileChange[] = [];
+  let patch = "";
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+  for (const file of paths) {
+    const a = before.get(file);
+    const b = after.get(file);
+    if (a && b && a.hash === b.hash) continue;
+    const diff = manifestFileDiff(file, a, b);
+    files.push(diff.change);
+    patch += diff.patch;
+  }
+  return { changes: { source: "manifest", files }, patch };
+}
+
+function capPatch(diff: WorkspaceDiff): WorkspaceDiff {
+  if (Buffer.byteLength(diff.patch) <= MAX_PATCH_BYTES) return diff;
+  const cut = Buffer.from(diff.patch).subarray(0, MAX_PATCH_BYTES).toString("utf8");
+  return { changes: { ...diff.changes, truncated: true }, patch: cut.slice(0, cut.lastIndexOf("\n") + 1) };
+}
+
+// What a turn changed, given a snapshot taken before it. The after side is taken the same way as
+// the before side, so an agent running `git init` mid-turn still gets a content diff.
+export function diffWorkspace(workdir: string, before: WorkspaceSnapshot): WorkspaceDiff | null {
+  if (!fs.existsSync(workdir)) return null;
+  if (before.source === "manifest") return capPatch(manifestDiff(before.files, readManifest(workdir)));
+  if (!isGitRepo(workdir)) return null;
+  const after = gitTree(workdir);
+  const changes: WorkspaceChanges = {
+    source: "git",
+    files: gitChanges(workdir, before.tree, after),
+    fromTree: before.tree,
+    toTree: after,
+  };
+  return capPatch({ changes, patch: gitDiff(workdir, before.tree, after) });
+}
+
+export function describeChanges(changes: WorkspaceChanges): string {
+  if (!changes.files.length) return "no changes";
+  const additions = changes.files.reduce((sum, f) => sum + f.additions, 0);
+  const deletions = changes.files.reduce((sum, f) => sum + f.deletions, 0);
+  const count = changes.files.length;
+  return `${count} file${count === 1 ? "" : "s"} changed (+${additions} -${deletions})`;
+}
+
+// Net change over the whole session. Straight from git when every turn was snapshotted there and
+// the trees are still around; otherwise each iteration's patch in order.
+export function sessionDiff(workdir: string, dataDir: string): string | null {
+  const iterations = listIterations(dataDir).filter((it) => it.changes);
+  if (!iterations.length) return null;
+  const first = iterations[0].changes;
+  const last = iterations[iterations.length - 1].changes;
+  if (iterations.every((it) => it.changes?.source === "git") && first?.fromTree && last?.toTree) {
+    try {
+      return gitDiff(workdir, first.fromTree, last.toTree);
+    } catch {
+      // Workdir moved, or the trees were garbage-collected.
+    }
+  }
+  return iterations
+    .map((it) => {
+      const patch = readIterationDiff(dataDir, it.index);
+      return patch ? `# iteration ${it.index} (${it.phase})\n${patch}` : "";
+    })
+    .join("");
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import express from "express";
+import { createServerAuth, isLoopbackHost } from "../ui/auth.js";
+
+type Reply = { status: number; headers: http.IncomingHttpHeaders; body: string };
+
+const TOKEN = "secret-token";
+const auth = createServerAuth({ token: TOKEN, bindHost: "127.0.0.1" });
+let server: http.Server;
+let port = 0;
+
+before(async () => {
+  const app = express();
+  app.use(auth.middleware);
+  app.get("/", (_req, res) => res.send("panel"));
+  app.get("/api/ping", (_req, res) => res.json({ ok: true }));
+  app.post("/api/ping", (_req, res) => res.json({ ok: true }));
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, headers: Record<string, string> = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port, method, path, headers: { host: `127.0.0.1:${port}`, ...headers } },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+const bearer = { authorization: `Bearer ${TOKEN}` };
+
+test("requests without the token are refused", async () => {
+  assert.equal((await request("GET", "/api/ping")).status, 401);
+  assert.equal((await request("GET", "/api/ping", { authorization: "Bearer wrong" })).status, 401);
+  assert.equal((await request("GET", "/api/ping", bearer)).status, 200);
+});
+
+test("the token in the URL sets a cookie and is dropped from the address", async () => {
+  const reply = await request("GET", "/?token=secret-token&session=abc");
+  assert.equal(reply.status, 303);
+  assert.equal(reply.headers.location, "/?session=abc");
+  const cookie = reply.headers["set-cookie"]?.[0]?.split(";")[0];
+  assert.equal(cookie, `milhouse_token_${port}=${TOKEN}`);
+  assert.equal((await request("GET", "/api/ping", { cookie: cookie! })).status, 200);
+});
+
+test("cookie-borne writes need the CSRF header; bearer writes do not", async () => {
+  const cookie = `milhouse_token_${port}=${TOKEN}`;
+  assert.equal((await request("POST", "/api/ping", { cookie })).status, 403);
+  assert.equal((await request("POST", "/api/ping", { cookie, "x-csrf-token": "nope" })).status, 403);
+  assert.equal((await request("POST", "/api/ping", { cookie, "x-csrf-token": auth.csrfToken })).status, 200);
+  assert.equal((await request("POST", "/api/ping", bearer)).status, 200);
+});
+
+test("foreign hosts and origins are refused", async () => {
+  const rebound = await request("GET", "/api/ping", { ...bearer, host: `evil.example:${port}` });
+  assert.equal(rebound.status, 403);
+  assert.match(rebound.body, /Host not allowed/);
+  assert.equal((await request("GET", "/api/ping", { ...bearer, origin: "http://evil.example" })).status, 403);
+  assert.equal((await request("GET", "/api/ping", { ...bearer, origin: "null" })).status, 403);
+  const sameOrigin = await request("GET", "/api/ping", { ...bearer, origin: `http://127.0.0.1:${port}` });
+  assert.equal(sameOrigin.status, 200);
+});
+
+test("isLoopbackHost accepts loopback names and addresses only", () => {
+  for (const host of ["localhost", "app.localhost", "127.0.0.1", "127.1.2.3", "::1", "[::1]"]) {
+    assert.ok(isLoopbackHost(host), host);
+  }
+  for (const host of ["0.0.0.0", "192.168.1.2", "localhost.example.com", "::"]) {
+    assert.ok(!isLoopbackHost(host), host);
+  }
+});
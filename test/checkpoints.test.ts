@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { test } from "node:test";
+import { rollbackToCheckpoint } from "../src/checkpoints.js";
+import { git, initRepo } from "../src/git.js";
+import { LOOP_EXIT } from "../src/loopProcess.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { sessionBranchName, sessionDataDir, syncSessionFromState, type SessionRecord } from "../src/sessions.js";
+import { loopFixture, runLoop } from "./helpers.js";
+
+const script: AgentScript = {
+  turns: [
+    { plan: "# Plan\n- [ ] a\n- [ ] b\n" },
+    { files: { "a.txt": "a\n" }, check: ["a"] },
+    { files: { "b.txt": "b\n" }, check: ["b"], status: "DONE" },
+  ],
+};
+
+async function checkpointedSession(fixture: ReturnType<typeof loopFixture>, id: string): Promise<SessionRecord> {
+  const session: SessionRecord = {
+    id,
+    goal: "g",
+    maxIterations: 0,
+    workdir: fixture.workdir,
+    stateDir: fixture.stateDir,
+    startedAt: "",
+    status: "succeeded",
+    gitCheckpoints: true,
+    branch: sessionBranchName(id),
+  };
+  const run = await runLoop({ ...fixture, sessionDir: sessionDataDir(session) }, { checkpointBranch: session.branch });
+  assert.equal(run.code, LOOP_EXIT.done, run.stdout);
+  return syncSessionFromState(session);
+}
+
+test("rollback resets the workdir and plan to the iteration's checkpoint", async () => {
+  const fixture = loopFixture(script);
+  initRepo(fixture.workdir);
+  const session = await checkpointedSession(fixture, "aaaaaaaa-1");
+  assert.deepEqual(
+    session.checkpoints?.map((c) => c.iteration),
+    [0, 1, 2],
+  );
+
+  const sha = rollbackToCheckpoint(session, 1);
+  assert.equal(sha, session.checkpoints![1].sha);
+  assert.equal(git(fixture.workdir, ["rev-parse", "HEAD"]), sha);
+  assert.deepEqual(fs.readdirSync(fixture.workdir).filter((f) => f !== ".git"), ["a.txt"]);
+  assert.equal(fs.readFileSync(fixture.planPath, "utf8"), "# Plan\n- [x] a\n- [ ] b\n");
+  assert.equal(session.rolledBackTo, 1);
+  assert.throws(() => rollbackToCheckpoint(session, 7), /No checkpoint for iteration 7/);
+});
+
+test("rollback refuses a checkpoint that is not on the session's branch", async () => {
+  const fixture = loopFixture(script);
+  initRepo(fixture.workdir);
+  const older = await checkpointedSession(fixture, "aaaaaaaa-1");
+  git(fixture.workdir, ["checkout", "--quiet", "-"]);
+  // Different files, so the newer session's commits can't share SHAs with the older one's.
+  const other = loopFixture({
+    turns: [
+      { plan: "# Plan\n- [ ] c\n- [ ] d\n" },
+      { files: { "c.txt": "c\n" }, check: ["c"] },
+      { files: { "d.txt": "d\n" }, check: ["d"], status: "DONE" },
+    ],
+  });
+  const newer = await checkpointedSession({ ...fixture, backend: other.backend }, "bbbbbbbb-2");
+  assert.ok(!older.checkpoints!.some((c) => c.sha === newer.checkpoints![2].sha));
+
+  const foreign = { ...older, checkpoints: [{ iteration: 2, sha: newer.checkpoints![2].sha }] };
+  assert.throws(() => rollbackToCheckpoint(foreign, 2), /is not on milhouse\/session-aaaaaaaa/);
+  // The newer session's work is untouched.
+  assert.equal(git(fixture.workdir, ["rev-parse", "HEAD"]), newer.checkpoints![2].sha);
+});
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { envConfig, loadConfigFile, resolveConfig, validateConfig } from "../src/config.js";
+import { tempDir } from "./helpers.js";
+
+// Keep a developer's own user config out of the layering.
+process.env.XDG_CONFIG_HOME = tempDir("xdg");
+
+function project(config: unknown, file = "milhouse.config.json"): string {
+  const workdir = tempDir("project");
+  fs.mkdirSync(path.dirname(path.join(workdir, file)), { recursive: true });
+  fs.writeFileSync(path.join(workdir, file), JSON.stringify(config), "utf8");
+  return workdir;
+}
+
+test("layers merge value by value, later sources winning", () => {
+  const workdir = project({ port: 5000, maxIterations: 4, policy: { build: { sandboxMode: "read-only" } } });
+  const { config, sources } = resolveConfig({
+    workdir,
+    env: { MILHOUSE_MAX_ITERATIONS: "6" },
+    cli: { port: 6000 },
+    api: { maxIterations: 8 },
+  });
+  assert.equal(config.host, "127.0.0.1");
+  assert.equal(sources.host, "default");
+  assert.equal(config.port, 6000);
+  assert.equal(sources.port, "cli");
+  assert.equal(config.maxIterations, 8);
+  assert.equal(sources.maxIterations, "api");
+  // Only the one policy key the project set is overridden.
+  assert.equal(config.policy?.build?.sandboxMode, "read-only");
+  assert.equal(sources["policy.build.sandboxMode"], "project");
+  assert.equal(sources["policy.plan.sandboxMode"], "default");
+});
+
+test("paths in a project config resolve against the project", () => {
+  const workdir = project({ promptsDir: "prompts", stateDir: "../state" }, path.join(".milhouse", "config.json"));
+  const { config, sources } = resolveConfig({ workdir, env: {} });
+  assert.equal(config.promptsDir, path.join(workdir, "prompts"));
+  assert.equal(config.stateDir, path.resolve(workdir, "../state"));
+  assert.equal(sources.stateDir, "project");
+});
+
+test("validation lists every problem at once", () => {
+  assert.throws(
+    () => validateConfig({ port: 70000, maxIterations: -1, colour: "red", parallel: 2 }, "test"),
+    (err: Error) => {
+      assert.match(err.message, /^Invalid config in test:/);
+      assert.match(err.message, /port: expected an integer between 0 and 65535/);
+      assert.match(err.message, /maxIterations: expected an integer >= 0/);
+      assert.match(err.message, /colour: unknown setting/);
+      assert.doesNotMatch(err.message, /- parallel:/);
+      return true;
+    },
+  );
+  assert.throws(() => validateConfig([], "test"), /expected a JSON object/);
+  assert.deepEqual(validateConfig({ port: "8080", verifyCommand: "" }, "test"), { port: 8080 });
+});
+
+test("a broken config file names the file", () => {
+  const workdir = tempDir("broken");
+  const file = path.join(workdir, "milhouse.config.json");
+  fs.writeFileSync(file, "{ nope", "utf8");
+  assert.throws(() => loadConfigFile(file), (err: Error) => err.message.startsWith(`Could not read config ${file}:`));
+  assert.throws(() => resolveConfig({ workdir, env: {} }), /Could not read config/);
+});
+
+test("environment variables fill their settings", () => {
+  assert.deepEqual(envConfig({ PORT: "9000", MILHOUSE_HOST: " 0.0.0.0 ", MILHOUSE_BACKEND: "codex" }), {
+    host: "0.0.0.0",
+    port: 9000,
+    backend: "codex",
+  });
+  assert.throws(() => envConfig({ MILHOUSE_PORT: "http" }), /Invalid config in environment/);
+});
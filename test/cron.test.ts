@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { cronMatches, nextCronTime, parseCron } from "../src/cron.js";
+
+// Local time, like the scheduler; `month` is 1-based as in cron.
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+test("fields accept lists, ranges, steps and names", () => {
+  const cron = parseCron("*/15 9-17 1,15 jan-mar mon-fri");
+  assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...cron.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assert.deepEqual([...cron.daysOfMonth], [1, 15]);
+  assert.deepEqual([...cron.months], [1, 2, 3]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCron("5/20 * * * *").minutes], [5, 25, 45]);
+  // 7 is Sunday too.
+  assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+});
+
+test("aliases expand to their five fields", () => {
+  const daily = parseCron("@daily");
+  assert.equal(daily.expression, "@daily");
+  assert.ok(cronMatches(daily, at(2025, 5, 14, 0, 0)));
+  assert.ok(!cronMatches(daily, at(2025, 5, 14, 0, 1)));
+});
+
+test("invalid expressions say what is wrong", () => {
+  assert.throws(() => parseCron("* * * *"), /expected 5 fields/);
+  assert.throws(() => parseCron("60 * * * *"), /Invalid minute: 60 \(expected 0-59\)/);
+  assert.throws(() => parseCron("* * * foo *"), /Invalid month: foo/);
+  assert.throws(() => parseCron("*/0 * * * *"), /Invalid step in minute/);
+  assert.throws(() => parseCron("* 5-2 * * *"), /Invalid range in hour: 5-2/);
+});
+
+test("restricting both day fields matches either of them", () => {
+  const cron = parseCron("0 12 13 * fri");
+  // Friday the 6th and Tuesday the 13th both match.
+  assert.ok(cronMatches(cron, at(2025, 6, 6, 12, 0)));
+  assert.ok(cronMatches(cron, at(2025, 5, 13, 12, 0)));
+  assert.ok(!cronMatches(cron, at(2025, 6, 7, 12, 0)));
+  // With one day field left open, the other one alone decides.
+  assert.ok(!cronMatches(parseCron("0 12 * * fri"), at(2025, 5, 13, 12, 0)));
+});
+
+test("nextCronTime finds the next matching minute strictly after the given time", () => {
+  const cron = parseCron("30 9 * * mon");
+  // Wednesday 14 May 2025 → Monday 19 May.
+  assert.deepEqual(nextCronTime(cron, at(2025, 5, 14, 10, 0)), at(2025, 5, 19, 9, 30));
+  assert.deepEqual(nextCronTime(cron, at(2025, 5, 19, 9, 30)), at(2025, 5, 26, 9, 30));
+  assert.deepEqual(nextCronTime(parseCron("0 0 29 2 *"), at(2025, 3, 1)), at(2028, 2, 29));
+  assert.equal(nextCronTime(parseCron("0 0 31 2 *"), at(2025, 1, 1)), null);
+});
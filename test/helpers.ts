@@ -0,0 +1,57 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { onLines, resolveRuntimeRoot, spawnLoopRunner, type LoopRunnerArgs } from "../src/loopProcess.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+
+export function tempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `milhouse-${prefix}-`));
+}
+
+export type LoopFixture = {
+  workdir: string;
+  stateDir: string;
+  sessionDir: string;
+  backend: string;
+  planPath: string;
+};
+
+// A workdir, a state dir and a scripted backend playing `script`, all under one temp dir.
+export function loopFixture(script: AgentScript, sessionId = "s1"): LoopFixture {
+  const root = tempDir("loop");
+  const workdir = path.join(root, "work");
+  const stateDir = path.join(root, "state");
+  fs.mkdirSync(workdir);
+  const fixture = path.join(root, "script.json");
+  fs.writeFileSync(fixture, JSON.stringify(script), "utf8");
+  return {
+    workdir,
+    stateDir,
+    sessionDir: path.join(stateDir, "sessions", sessionId),
+    backend: `scripted:${fixture}`,
+    planPath: path.join(stateDir, "IMPLEMENTATION_PLAN.md"),
+  };
+}
+
+// Runs the real loop runner to completion; the scripted backend keeps it offline.
+export function runLoop(
+  fixture: LoopFixture,
+  args: Partial<LoopRunnerArgs> = {},
+): Promise<{ code: number | null; stdout: string }> {
+  const child = spawnLoopRunner(resolveRuntimeRoot(), {
+    goal: "test goal",
+    maxIterations: 0,
+    workdir: fixture.workdir,
+    stateDir: fixture.stateDir,
+    sessionDir: fixture.sessionDir,
+    backend: fixture.backend,
+    ...args,
+  });
+  const lines: string[] = [];
+  onLines(child.stdout, (line) => lines.push(line));
+  onLines(child.stderr, (line) => lines.push(`[stderr] ${line}`));
+  child.events.resume();
+  return new Promise((resolve) => {
+    child.on("close", (code) => resolve({ code, stdout: lines.join("\n") }));
+  });
+}
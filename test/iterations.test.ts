@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { test } from "node:test";
+import { listIterations, readIteration } from "../src/iterations.js";
+import { LOOP_EXIT } from "../src/loopProcess.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { isStateDirReused, sessionDataDir, syncSessionFromState, type SessionRecord } from "../src/sessions.js";
+import { loopFixture, runLoop } from "./helpers.js";
+
+const script: AgentScript = {
+  turns: [{ plan: "# Plan\n- [ ] a\n" }, { files: { "a.txt": "a\n" }, check: ["a"], status: "DONE" }],
+};
+
+function record(id: string, stateDir: string, workdir: string): SessionRecord {
+  return { id, goal: "g", maxIterations: 0, workdir, stateDir, startedAt: "", status: "succeeded" };
+}
+
+test("sessions on one workdir keep their own iteration history", async () => {
+  const fixture = loopFixture(script);
+  const older = record("older", fixture.stateDir, fixture.workdir);
+  const newer = record("newer", fixture.stateDir, fixture.workdir);
+  assert.equal(sessionDataDir(older), path.join(fixture.stateDir, "sessions", "older"));
+
+  assert.equal((await runLoop({ ...fixture, sessionDir: sessionDataDir(older) })).code, LOOP_EXIT.done);
+  const olderThreads = listIterations(sessionDataDir(older)).map((it) => it.threadId);
+  // What the parent keeps from the loop's `thread:` lines: the latest one.
+  older.threadId = olderThreads[olderThreads.length - 1]!;
+  assert.equal(isStateDirReused(older), false);
+
+  // A fresh run on the same workdir used to wipe the older session's iterations.
+  assert.equal((await runLoop({ ...fixture, sessionDir: sessionDataDir(newer) })).code, LOOP_EXIT.done);
+  assert.deepEqual(
+    listIterations(sessionDataDir(older)).map((it) => it.threadId),
+    olderThreads,
+  );
+  assert.notDeepEqual(
+    listIterations(sessionDataDir(newer)).map((it) => it.threadId),
+    olderThreads,
+  );
+  assert.equal(readIteration(sessionDataDir(older), 1)?.plan, "# Plan\n- [x] a\n\nSTATUS: DONE\n");
+
+  // The shared thread id now belongs to the newer session.
+  assert.equal(isStateDirReused(older), true);
+  syncSessionFromState(older);
+  assert.deepEqual(
+    older.turns?.map((turn) => turn.phase),
+    ["plan", "build"],
+  );
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  buildLoopRunnerArgs,
+  exitCodeForStatus,
+  LOOP_EXIT,
+  sessionStatusFromExit,
+} from "../src/loopProcess.js";
+
+test("exit codes map to session statuses and back", () => {
+  for (const code of Object.values(LOOP_EXIT)) {
+    const status = sessionStatusFromExit(code, null);
+    assert.equal(exitCodeForStatus(status), code);
+  }
+  assert.equal(sessionStatusFromExit(LOOP_EXIT.done, null), "succeeded");
+  assert.equal(sessionStatusFromExit(LOOP_EXIT.awaitingApproval, null), "awaiting-approval");
+  assert.equal(sessionStatusFromExit(42, null), "failed");
+});
+
+test("a run ended by a signal is stopped", () => {
+  assert.equal(sessionStatusFromExit(null, "SIGTERM"), "stopped");
+  assert.equal(sessionStatusFromExit(null, "SIGINT"), "stopped");
+  assert.equal(exitCodeForStatus("stopped"), 130);
+  assert.equal(sessionStatusFromExit(null, "SIGKILL"), "failed");
+});
+
+test("loop runner args carry only the options that are set", () => {
+  const args = buildLoopRunnerArgs({
+    goal: "Add a README",
+    maxIterations: 3,
+    workdir: "/work",
+    stateDir: "/state",
+    sessionDir: "/state/sessions/abc",
+  });
+  assert.deepEqual(args, [
+    "--goal",
+    "Add a README",
+    "--max-iterations",
+    "3",
+    "--workdir",
+    "/work",
+    "--state-dir",
+    "/state",
+    "--session-dir",
+    "/state/sessions/abc",
+  ]);
+
+  const full = buildLoopRunnerArgs({
+    goal: "g",
+    maxIterations: 0,
+    workdir: "/work",
+    stateDir: "/state",
+    sessionDir: "/state/sessions/abc",
+    resume: true,
+    budget: { maxCostUsd: 2 },
+    parallel: 1,
+    reviewPlan: true,
+    pauseEvery: 2,
+    vars: { NAME: "x" },
+  });
+  assert.ok(full.includes("--resume"));
+  assert.deepEqual(full.slice(full.indexOf("--max-cost"), full.indexOf("--max-cost") + 2), ["--max-cost", "2"]);
+  // A limit of one is the default and is left out.
+  assert.ok(!full.includes("--parallel"));
+  assert.ok(full.includes("--review-plan"));
+  assert.deepEqual(full.slice(-2), ["--var", "NAME=x"]);
+});
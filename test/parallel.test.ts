@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { git, initRepo } from "../src/git.js";
+import { listIterations } from "../src/iterations.js";
+import { LOOP_EXIT } from "../src/loopProcess.js";
+import { parseParallelLimit, pickParallelItems } from "../src/parallel.js";
+import { isPlanDone } from "../src/plan.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { loopFixture, runLoop } from "./helpers.js";
+
+test("parseParallelLimit accepts 1 to 8", () => {
+  assert.equal(parseParallelLimit("3"), 3);
+  assert.equal(parseParallelLimit(8), 8);
+  for (const bad of [0, 9, 2.5, "x", ""]) assert.throws(() => parseParallelLimit(bad), /between 1 and 8/);
+});
+
+test("pickParallelItems takes the first unchecked items", () => {
+  assert.deepEqual(pickParallelItems("- [x] a\n- [ ] b\n- [ ] c\n- [ ] d\n", 2), ["b", "c"]);
+  assert.deepEqual(pickParallelItems("- [x] a\n", 4), []);
+});
+
+const script: AgentScript = {
+  turns: [
+    { plan: "# Plan\n- [ ] a\n- [ ] b\n- [ ] c\n" },
+    // First fan-out: w1 merges, w2 does nothing, w3 conflicts with w1.
+    { files: { "shared.txt": "from a\n" } },
+    { response: "nothing to do" },
+    { files: { "shared.txt": "from c\n" } },
+    // Second fan-out over what is left.
+    { files: { "b.txt": "b\n" } },
+    { files: { "c.txt": "c\n" } },
+  ],
+};
+
+test("parallel builders merge back in plan order and only check off merged work", async () => {
+  const fixture = loopFixture(script);
+  initRepo(fixture.workdir);
+  const branch = "milhouse/session-parallel";
+  const run = await runLoop(fixture, { checkpointBranch: branch, parallel: 3 });
+  assert.equal(run.code, LOOP_EXIT.done, run.stdout);
+
+  const workers = listIterations(fixture.sessionDir)
+    .filter((it) => it.worker)
+    .map((it) => [it.index, it.worker!.item, it.worker!.status, it.loop]);
+  assert.deepEqual(workers, [
+    [1, "a", "merged", 1],
+    [2, "b", "no-changes", 1],
+    [3, "c", "conflict", 1],
+    [4, "b", "merged", 2],
+    [5, "c", "merged", 2],
+  ]);
+  const conflict = listIterations(fixture.sessionDir)[3].worker!;
+  assert.deepEqual(conflict.conflicts, ["shared.txt"]);
+
+  const plan = fs.readFileSync(fixture.planPath, "utf8");
+  assert.ok(isPlanDone(plan), plan);
+  assert.equal(fs.readFileSync(path.join(fixture.workdir, "shared.txt"), "utf8"), "from a\n");
+  assert.ok(fs.existsSync(path.join(fixture.workdir, "b.txt")));
+
+  // Only the conflicted worker's branch is kept, and no worktree is left behind.
+  const branches = git(fixture.workdir, ["branch", "--format=%(refname:short)"]).split("\n");
+  assert.deepEqual(branches.filter((b) => b.startsWith(`${branch}-`)), [`${branch}-w3`]);
+  assert.equal(git(fixture.workdir, ["worktree", "list"]).split("\n").length, 1);
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { checkOffItems, checklistChanges, isPlanDone, parsePlan, setPlanStatus } from "../src/plan.js";
+
+const PLAN = `# Implementation plan
+
+Add a README and a license.
+Keep it short.
+
+- [x] Write README
+- [ ] Add LICENSE
+* [X] Pick a license
+
+STATUS: READY
+`;
+
+test("parsePlan reads the summary, checklist, status and progress", () => {
+  const plan = parsePlan(PLAN);
+  assert.equal(plan.summary, "Add a README and a license. Keep it short.");
+  assert.deepEqual(plan.items, [
+    { done: true, text: "Write README" },
+    { done: false, text: "Add LICENSE" },
+    { done: true, text: "Pick a license" },
+  ]);
+  assert.equal(plan.status, "READY");
+  assert.deepEqual([plan.completed, plan.total, plan.percent], [2, 3, 67]);
+});
+
+test("the last STATUS line wins, in any decoration", () => {
+  assert.ok(isPlanDone("STATUS: READY\n\n**STATUS: `done`**\n"));
+  assert.ok(!isPlanDone("STATUS: DONE\n\nSTATUS: READY\n"));
+  assert.equal(parsePlan("STATUS: DONE\n").percent, 100);
+  assert.equal(parsePlan("no checklist").percent, 0);
+});
+
+test("checklistChanges reports completed, reopened, added and removed items", () => {
+  const before = "- [ ] a\n- [x] b\n- [ ] c\n";
+  const after = "- [x] a\n- [ ] b\n- [ ] d\n- [x] e\n";
+  assert.deepEqual(checklistChanges(before, after), {
+    completed: ["a", "e"],
+    reopened: ["b"],
+    added: ["d"],
+    removed: ["c"],
+  });
+});
+
+test("checkOffItems ticks unchecked items by text and reports the rest", () => {
+  const { plan, missing } = checkOffItems(PLAN, ["Add LICENSE", "Write README", "Ship it"]);
+  assert.match(plan, /- \[x\] Add LICENSE/);
+  // Already checked, so it counts as missing rather than being touched again.
+  assert.deepEqual(missing, ["Write README", "Ship it"]);
+  assert.equal(plan.replace("- [x] Add LICENSE", "- [ ] Add LICENSE"), PLAN);
+});
+
+test("setPlanStatus rewrites the last status line or appends one", () => {
+  assert.equal(setPlanStatus(PLAN, "DONE"), PLAN.replace("STATUS: READY", "STATUS: DONE"));
+  assert.equal(setPlanStatus("- [x] a\n\n", "DONE"), "- [x] a\n\nSTATUS: DONE\n");
+});
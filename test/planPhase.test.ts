@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { test } from "node:test";
+import { LOOP_EXIT } from "../src/loopProcess.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { loopFixture, runLoop } from "./helpers.js";
+
+const existingPlan = "# Plan\n- [ ] a\n";
+
+const script: AgentScript = {
+  turns: [{ response: "# Plan\n- [ ] from the response\n" }, { response: "working" }],
+};
+
+test("a planner that can write and keeps the existing plan doesn't have it replaced by its response", async () => {
+  const fixture = loopFixture(script);
+  fs.mkdirSync(fixture.stateDir, { recursive: true });
+  fs.writeFileSync(fixture.planPath, existingPlan, "utf8");
+
+  const run = await runLoop(fixture, { maxIterations: 1 });
+  assert.equal(run.code, LOOP_EXIT.maxIterations, run.stdout);
+  assert.doesNotMatch(run.stdout, /Plan written from the planner's response/);
+  assert.equal(fs.readFileSync(fixture.planPath, "utf8"), existingPlan);
+});
+
+test("a read-only planner's response becomes the plan", async () => {
+  const fixture = loopFixture(script);
+  fs.mkdirSync(fixture.stateDir, { recursive: true });
+  fs.writeFileSync(fixture.planPath, existingPlan, "utf8");
+
+  const run = await runLoop(fixture, { maxIterations: 1, policy: { plan: { sandboxMode: "read-only" } } });
+  assert.equal(run.code, LOOP_EXIT.maxIterations, run.stdout);
+  assert.equal(fs.readFileSync(fixture.planPath, "utf8"), "# Plan\n- [ ] from the response\n");
+});
+
+test("a planner that leaves no plan file has its response written as the plan", async () => {
+  const fixture = loopFixture(script);
+  const run = await runLoop(fixture, { maxIterations: 1 });
+  assert.equal(run.code, LOOP_EXIT.maxIterations, run.stdout);
+  assert.match(run.stdout, /Plan written from the planner's response/);
+  assert.equal(fs.readFileSync(fixture.planPath, "utf8"), "# Plan\n- [ ] from the response\n");
+});
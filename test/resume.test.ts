@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { test } from "node:test";
+import { listIterations } from "../src/iterations.js";
+import { LOOP_EXIT } from "../src/loopProcess.js";
+import { isPlanDone } from "../src/plan.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { loopFixture, runLoop } from "./helpers.js";
+
+const script: AgentScript = {
+  turns: [
+    { plan: "# Plan\n- [ ] a\n- [ ] b\n- [ ] c\n" },
+    { files: { "a.txt": "a\n" }, check: ["a"] },
+    { files: { "b.txt": "b\n" }, check: ["b"] },
+    { files: { "c.txt": "c\n" }, check: ["c"], status: "DONE" },
+  ],
+};
+
+test("a resumed session carries on with the next turn and keeps counting loop iterations", async () => {
+  const fixture = loopFixture(script);
+
+  const first = await runLoop(fixture, { maxIterations: 1 });
+  assert.equal(first.code, LOOP_EXIT.maxIterations, first.stdout);
+  assert.deepEqual(
+    listIterations(fixture.sessionDir).map((it) => [it.index, it.phase, it.loop]),
+    [
+      [0, "plan", undefined],
+      [1, "build", 1],
+    ],
+  );
+
+  const second = await runLoop(fixture, { maxIterations: 2, resume: true });
+  assert.equal(second.code, LOOP_EXIT.maxIterations, second.stdout);
+  assert.match(second.stdout, /Resuming after loop 1/);
+  assert.deepEqual(
+    listIterations(fixture.sessionDir).map((it) => [it.index, it.loop]),
+    [
+      [0, undefined],
+      [1, 1],
+      [2, 2],
+    ],
+  );
+  // Both turns ran on the thread the plan turn started.
+  const threads = new Set(listIterations(fixture.sessionDir).map((it) => it.threadId?.replace(/-\d+$/, "")));
+  assert.equal(threads.size, 1);
+
+  // The limit covers the session, not each process: resuming at the limit plays no turn.
+  const third = await runLoop(fixture, { maxIterations: 2, resume: true });
+  assert.equal(third.code, LOOP_EXIT.maxIterations, third.stdout);
+  assert.equal(listIterations(fixture.sessionDir).length, 3);
+
+  const last = await runLoop(fixture, { maxIterations: 3, resume: true });
+  assert.equal(last.code, LOOP_EXIT.done, last.stdout);
+  assert.ok(isPlanDone(fs.readFileSync(fixture.planPath, "utf8")));
+  assert.deepEqual(fs.readdirSync(fixture.workdir).sort(), ["a.txt", "b.txt", "c.txt"]);
+});
+
+test("resuming needs a saved thread", async () => {
+  const fixture = loopFixture(script);
+  const result = await runLoop(fixture, { resume: true });
+  assert.equal(result.code, LOOP_EXIT.failed);
+  assert.match(result.stdout, /Cannot resume: no thread id/);
+});
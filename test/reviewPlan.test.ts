@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { test } from "node:test";
+import { listIterations } from "../src/iterations.js";
+import { LOOP_EXIT, readLoopOutcome } from "../src/loopProcess.js";
+import { isPlanDone } from "../src/plan.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { loopFixture, runLoop } from "./helpers.js";
+
+const script: AgentScript = {
+  turns: [
+    { plan: "# Plan\n- [ ] a\n- [ ] b\n- [ ] c\n" },
+    { files: { "a.txt": "a\n" }, check: ["a"] },
+    { files: { "b.txt": "b\n" }, check: ["b"], status: "DONE" },
+  ],
+};
+
+test("a reviewed plan waits for approval, then the build pauses every N loop iterations", async () => {
+  const fixture = loopFixture(script);
+
+  const planned = await runLoop(fixture, { reviewPlan: true });
+  assert.equal(planned.code, LOOP_EXIT.awaitingApproval, planned.stdout);
+  assert.equal(readLoopOutcome(fixture.stateDir)?.status, "awaiting-approval");
+  assert.deepEqual(
+    listIterations(fixture.sessionDir).map((it) => it.phase),
+    ["plan"],
+  );
+
+  // The reviewer drops an item before approving; the build works from the edited plan.
+  fs.writeFileSync(fixture.planPath, "# Plan\n- [ ] a\n- [ ] b\n", "utf8");
+
+  const first = await runLoop(fixture, { resume: true, pauseEvery: 1 });
+  assert.equal(first.code, LOOP_EXIT.awaitingApproval, first.stdout);
+  assert.match(first.stdout, /paused after 1 iteration\b/);
+  assert.equal(fs.readFileSync(fixture.planPath, "utf8"), "# Plan\n- [x] a\n- [ ] b\n");
+
+  const second = await runLoop(fixture, { resume: true, pauseEvery: 1 });
+  assert.equal(second.code, LOOP_EXIT.done, second.stdout);
+  const plan = fs.readFileSync(fixture.planPath, "utf8");
+  assert.ok(isPlanDone(plan), plan);
+  assert.doesNotMatch(plan, /\bc\b/);
+  assert.deepEqual(
+    listIterations(fixture.sessionDir).map((it) => [it.index, it.phase, it.loop]),
+    [
+      [0, "plan", undefined],
+      [1, "build", 1],
+      [2, "build", 2],
+    ],
+  );
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { gzipSync } from "node:zlib";
+import { importSession } from "../src/sessionArchive.js";
+import { findSession } from "../src/sessions.js";
+import { tempDir } from "./helpers.js";
+
+function archive(session: Record<string, unknown>): Buffer {
+  return gzipSync(
+    JSON.stringify({ format: "milhouse-session", version: 1, exportedAt: "", session, stateDirReused: false, files: {} }),
+  );
+}
+
+const base = { id: "aaaaaaaa-1", goal: "g", maxIterations: 3, workdir: "/elsewhere", startedAt: "2026-01-01T00:00:00Z" };
+
+test("an imported session keeps only known fields and never stays waiting", () => {
+  const stateBase = tempDir("import");
+  const session = importSession(stateBase, archive({ ...base, status: "awaiting-approval", extra: "<b>", parallel: 2 }));
+  assert.equal(session.status, "stopped");
+  assert.equal(session.parallel, 2);
+  assert.ok(session.importedAt);
+  assert.ok(!("extra" in session));
+  assert.deepEqual(findSession(stateBase, base.id), session);
+});
+
+test("an archive with an unknown status or a mistyped field is rejected", () => {
+  const stateBase = tempDir("import");
+  assert.throws(
+    () => importSession(stateBase, archive({ ...base, status: "<img src=x onerror=alert(1)>" })),
+    /Invalid session status/,
+  );
+  assert.throws(() => importSession(stateBase, archive({ ...base, status: "failed", parallel: "<b>" })), /field in archive: parallel/);
+  assert.throws(() => importSession(stateBase, archive({ ...base, status: "failed", goal: undefined })), /field in archive: goal/);
+  assert.equal(findSession(stateBase, base.id), undefined);
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { resolveRuntimeRoot } from "../src/loopProcess.js";
+import type { AgentScript } from "../src/scriptedBackend.js";
+import { upsertSession, type SessionRecord } from "../src/sessions.js";
+import { startServer } from "../ui/server.js";
+import { createSessionManager } from "../ui/sessionManager.js";
+import { loopFixture, tempDir } from "./helpers.js";
+
+// Keeps the user's own config files out of server-side config resolution.
+process.env.XDG_CONFIG_HOME = tempDir("config");
+
+const script: AgentScript = {
+  turns: [{ plan: "# Plan\n- [ ] a\n" }, { files: { "a.txt": "a\n" }, check: ["a"], status: "DONE" }],
+};
+
+function managerFixture() {
+  const root = tempDir("manager");
+  const stateBaseDir = path.join(root, "state");
+  const workdir = path.join(root, "work");
+  fs.mkdirSync(stateBaseDir);
+  const manager = createSessionManager({ runtimeRoot: resolveRuntimeRoot(), stateBaseDir, defaultWorkdir: workdir });
+  return { stateBaseDir, workdir, manager };
+}
+
+test("a new run is refused while a session on the workdir awaits approval", () => {
+  const { stateBaseDir, workdir, manager } = managerFixture();
+  const waiting = manager.prepare({ goal: "g", maxIterations: 0, workdir, createIfMissing: true });
+  upsertSession(stateBaseDir, { ...waiting, status: "awaiting-approval" });
+
+  assert.ok(manager.isBusy(workdir));
+  assert.throws(
+    () => manager.start({ goal: "other", maxIterations: 0, workdir, createIfMissing: true }),
+    /A session is awaiting approval for /,
+  );
+  assert.deepEqual(manager.list(), []);
+});
+
+test("a finished run is dropped from the live sessions once nobody watches it", async () => {
+  const { manager } = managerFixture();
+  const { workdir, backend } = loopFixture(script);
+  const ended = new Promise<SessionRecord>((resolve) => manager.onSessionEnd(resolve));
+  const entry = manager.start({ goal: "g", maxIterations: 0, workdir, createIfMissing: true, backend });
+  assert.deepEqual(manager.list(), [entry]);
+
+  assert.equal((await ended).status, "succeeded");
+  assert.deepEqual(manager.list(), []);
+  assert.equal(manager.get(entry.session.id), undefined);
+});
+
+test("/api/live lists only runs in progress", async (t) => {
+  const { stateBaseDir, workdir } = managerFixture();
+  const { backend } = loopFixture(script);
+  const server = await startServer({ port: 0, stateBaseDir, defaultWorkdir: workdir, token: "tok" });
+  t.after(() => server.close());
+  const api = (route: string, init: RequestInit = {}) =>
+    fetch(`http://127.0.0.1:${server.port}${route}`, {
+      ...init,
+      headers: { authorization: "Bearer tok", "content-type": "application/json" },
+    }).then((res) => res.json());
+
+  const started = await api("/api/start", { method: "POST", body: JSON.stringify({ goal: "g", backend }) });
+  assert.ok(started.ok, JSON.stringify(started));
+  let live = await api("/api/live");
+  assert.deepEqual(
+    live.sessions.map((l: { session: SessionRecord }) => l.session.id),
+    [started.session.id],
+  );
+
+  for (let i = 0; i < 100; i += 1) {
+    const { sessions } = await api("/api/sessions");
+    if (sessions.find((s: SessionRecord) => s.id === started.session.id)?.status === "succeeded") break;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  live = await api("/api/live");
+  assert.deepEqual(live.sessions, []);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import {
+  createStallDetector,
+  DEFAULT_STALL_THRESHOLDS,
+  parseStallThresholds,
+  workdirFingerprint,
+  type StallObservation,
+} from "../src/stall.js";
+import { tempDir } from "./helpers.js";
+
+const OFF = { planUnchanged: 0, noWorkdirChanges: 0, repeatedResponse: 0, checklistGrowth: 0 };
+
+function observation(overrides: Partial<StallObservation> = {}): StallObservation {
+  return { planBefore: "", planAfter: "", response: "", workdirBefore: "a", workdirAfter: "b", ...overrides };
+}
+
+test("an unchanged plan stalls after the threshold, and progress resets the streak", () => {
+  const detector = createStallDetector({ ...OFF, planUnchanged: 2 });
+  const same = observation({ planBefore: "- [ ] a\n", planAfter: "- [ ] a\n" });
+  assert.equal(detector.observe(same), null);
+  assert.equal(detector.observe(observation({ planBefore: "- [ ] a\n", planAfter: "- [x] a\n" })), null);
+  assert.equal(detector.observe(same), null);
+  assert.equal(detector.observe(same), "plan unchanged for 2 iterations");
+});
+
+test("repeated responses and untouched workdirs are each detected", () => {
+  const detector = createStallDetector({ ...OFF, repeatedResponse: 2, noWorkdirChanges: 3 });
+  const idle = observation({ planAfter: "x", response: " same ", workdirBefore: "h", workdirAfter: "h" });
+  assert.equal(detector.observe(idle), null);
+  assert.equal(detector.observe(idle), null);
+  assert.equal(detector.observe(idle), "no workdir changes for 3 iterations; same response 3 times in a row");
+});
+
+test("a workdir that could not be fingerprinted never counts as unchanged", () => {
+  const detector = createStallDetector({ ...OFF, noWorkdirChanges: 1 });
+  assert.equal(detector.observe(observation({ workdirBefore: null, workdirAfter: null })), null);
+});
+
+test("a growing checklist with nothing completed stalls", () => {
+  const detector = createStallDetector({ ...OFF, checklistGrowth: 2 });
+  const grow = (n: number) =>
+    observation({ planBefore: "- [ ] a\n".repeat(n), planAfter: "- [ ] a\n".repeat(n + 1) });
+  assert.equal(detector.observe(grow(1)), null);
+  assert.equal(detector.observe(grow(2)), "checklist grew for 2 iterations without completing an item");
+});
+
+test("a threshold of 0 turns the check off", () => {
+  const detector = createStallDetector(OFF);
+  for (let i = 0; i < 10; i += 1) assert.equal(detector.observe(observation({ workdirAfter: "a" })), null);
+});
+
+test("parseStallThresholds keeps set keys and rejects bad values", () => {
+  assert.equal(parseStallThresholds(undefined), undefined);
+  assert.equal(parseStallThresholds({ planUnchanged: "" }), undefined);
+  assert.deepEqual(parseStallThresholds({ planUnchanged: "4", checklistGrowth: 0 }), {
+    planUnchanged: 4,
+    checklistGrowth: 0,
+  });
+  assert.throws(() => parseStallThresholds({ repeatedResponse: -1 }), /Invalid stall.repeatedResponse: -1/);
+  assert.throws(() => parseStallThresholds({ noWorkdirChanges: 1.5 }), /Invalid stall.noWorkdirChanges/);
+  assert.deepEqual(Object.keys(DEFAULT_STALL_THRESHOLDS).sort(), Object.keys(OFF).sort());
+});
+
+test("the workdir fingerprint changes with files but skips .git and node_modules", () => {
+  const dir = tempDir("stall");
+  const initial = workdirFingerprint(dir);
+  fs.mkdirSync(path.join(dir, "node_modules"));
+  fs.writeFileSync(path.join(dir, "node_modules", "dep.js"), "x");
+  assert.equal(workdirFingerprint(dir), initial);
+  fs.writeFileSync(path.join(dir, "a.txt"), "a");
+  assert.notEqual(workdirFingerprint(dir), initial);
+  assert.equal(workdirFingerprint(path.join(dir, "missing")), null);
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { unifiedDiff } from "../src/unifiedDiff.js";
+import { tempDir } from "./helpers.js";
+
+const lines = (n: number, from = 1) => Array.from({ length: n }, (_, i) => `line ${i + from}\n`).join("");
+
+// git is the reference: the hunks must apply cleanly and produce `after`.
+function applyWithGit(before: string, after: string): string {
+  const hunks = unifiedDiff(before, after);
+  if (!hunks) return before;
+  const dir = tempDir("diff");
+  fs.writeFileSync(path.join(dir, "f.txt"), before, "utf8");
+  fs.writeFileSync(path.join(dir, "change.patch"), `--- a/f.txt\n+++ b/f.txt\n${hunks}`, "utf8");
+  execFileSync("git", ["apply", "change.patch"], { cwd: dir, stdio: "pipe" });
+  return fs.readFileSync(path.join(dir, "f.txt"), "utf8");
+}
+
+test("equal texts have no hunks", () => {
+  assert.equal(unifiedDiff("", ""), "");
+  assert.equal(unifiedDiff(lines(5), lines(5)), "");
+});
+
+test("a changed line gets three lines of context", () => {
+  const after = lines(10).replace("line 5\n", "line five\n");
+  assert.equal(
+    unifiedDiff(lines(10), after),
+    "@@ -2,7 +2,7 @@\n line 2\n line 3\n line 4\n-line 5\n+line five\n line 6\n line 7\n line 8\n",
+  );
+});
+
+test("new and deleted files start at line 0 on the empty side", () => {
+  assert.equal(unifiedDiff("", "a\nb\n"), "@@ -0,0 +1,2 @@\n+a\n+b\n");
+  assert.equal(unifiedDiff("a\n", ""), "@@ -1 +0,0 @@\n-a\n");
+});
+
+test("a missing final newline is marked", () => {
+  assert.equal(
+    unifiedDiff("a\nb\n", "a\nb"),
+    "@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n",
+  );
+});
+
+test("changes far apart get their own hunks, close ones share one", () => {
+  const text = lines(30);
+  const far = text.replace("line 3\n", "x\n").replace("line 25\n", "y\n");
+  assert.equal(unifiedDiff(text, far).match(/^@@/gm)?.length, 2);
+  const close = text.replace("line 3\n", "x\n").replace("line 9\n", "y\n");
+  assert.equal(unifiedDiff(text, close).match(/^@@/gm)?.length, 1);
+});
+
+test("the diff is minimal for simple edits", () => {
+  const before = "a\nb\nc\nd\ne\n";
+  const after = "a\nc\nd\nX\ne\n";
+  const changed = unifiedDiff(before, after).split("\n").filter((l) => /^[-+]/.test(l));
+  assert.deepEqual(changed, ["-b", "+X"]);
+});
+
+test("hunks apply with git across assorted edits", () => {
+  // Deterministic pseudo-random edits over a small alphabet, so lines repeat and alignment is ambiguous.
+  let seed = 42;
+  const random = (n: number) => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed % n;
+  };
+  for (let round = 0; round < 25; round += 1) {
+    const before = Array.from({ length: random(40) }, () => `${"abcde"[random(5)]}\n`);
+    const after = [...before];
+    for (let edit = random(8); edit > 0; edit -= 1) {
+      const at = random(after.length + 1);
+      if (random(2)) after.splice(at, 1);
+      else after.splice(at, 0, `${"abcdefg"[random(7)]}\n`);
+    }
+    // Now and then drop the final newline too.
+    const afterText = random(4) === 0 ? after.join("").replace(/\n$/, "") : after.join("");
+    assert.equal(applyWithGit(before.join(""), afterText), afterText, `round ${round}`);
+  }
+});
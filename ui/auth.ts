@@ -0,0 +1,117 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import type express from "express";
+
+export type ServerAuthOptions = {
+  // null turns token auth off; only allowed on loopback addresses.
+  token: string | null;
+  bindHost: string;
+};
+
+export type ServerAuth = {
+  token: string | null;
+  csrfToken: string;
+  middleware: express.RequestHandler;
+};
+
+const CSRF_HEADER = "x-csrf-token";
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+export function generateToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function isLoopbackHost(host: string): boolean {
+  const h = host.replace(/^\[|\]$/g, "").toLowerCase();
+  return h === "localhost" || h.endsWith(".localhost") || h === "::1" || /^127\.\d+\.\d+\.\d+$/.test(h);
+}
+
+function isWildcardHost(host: string): boolean {
+  return host === "0.0.0.0" || host === "::" || host === "[::]";
+}
+
+function hostnameOf(hostHeader: string): string {
+  // "[::1]:4173" -> "[::1]", "localhost:4173" -> "localhost"
+  const match = hostHeader.match(/^(\[[^\]]+\]|[^:]+)(?::\d+)?$/);
+  return match ? match[1] : hostHeader;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function readCookie(req: express.Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq > 0 && part.slice(0, eq).trim() === name) return decodeURIComponent(part.slice(eq + 1).trim());
+  }
+  return undefined;
+}
+
+// Cookies ignore ports, so two panels on one machine need distinct cookie names.
+function cookieName(req: express.Request): string {
+  return `milhouse_token_${req.socket.localPort ?? ""}`;
+}
+
+function reject(req: express.Request, res: express.Response, status: number, message: string) {
+  if (req.path.startsWith("/api/")) res.status(status).json({ error: message });
+  else res.status(status).type("text/plain").send(message);
+}
+
+export function createServerAuth(options: ServerAuthOptions): ServerAuth {
+  const { token, bindHost } = options;
+  const csrfToken = generateToken();
+  const allowedHosts = new Set(["localhost", "127.0.0.1", "[::1]"]);
+  if (!isWildcardHost(bindHost)) allowedHosts.add(bindHost.includes(":") ? `[${bindHost}]` : bindHost.toLowerCase());
+
+  const middleware: express.RequestHandler = (req, res, next) => {
+    // DNS rebinding: a hostile page that resolves its own name to 127.0.0.1 still sends its own Host header.
+    const hostHeader = req.headers.host ?? "";
+    if (!isWildcardHost(bindHost) && !allowedHosts.has(hostnameOf(hostHeader).toLowerCase())) {
+      return reject(req, res, 403, `Host not allowed: ${hostHeader}`);
+    }
+    const origin = req.headers.origin;
+    if (origin && origin !== "null") {
+      let originHost = "";
+      try {
+        originHost = new URL(origin).host;
+      } catch {
+        // Unparseable origin is treated as foreign.
+      }
+      if (originHost !== hostHeader) return reject(req, res, 403, `Origin not allowed: ${origin}`);
+    } else if (origin === "null") {
+      return reject(req, res, 403, "Origin not allowed: null");
+    }
+
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (token) {
+      const fromQuery = typeof req.query.token === "string" ? req.query.token : undefined;
+      if (fromQuery && safeEqual(fromQuery, token)) {
+        res.cookie(cookieName(req), token, { httpOnly: true, sameSite: "strict", path: "/" });
+        if (req.method === "GET" && !req.path.startsWith("/api/")) {
+          // Drop the token from the address bar and history once the cookie is set.
+          const url = new URL(req.originalUrl, "http://placeholder");
+          url.searchParams.delete("token");
+          return res.redirect(303, url.pathname + url.search);
+        }
+      } else {
+        const presented = bearer ?? readCookie(req, cookieName(req));
+        if (!presented || !safeEqual(presented, token)) {
+          return reject(req, res, 401, "Unauthorized: open the URL printed by `milhouse ui` (it carries the access token)");
+        }
+      }
+    }
+
+    // Bearer requests come from scripts, which a cross-site page cannot forge; cookie-borne ones need the CSRF header.
+    if (!SAFE_METHODS.has(req.method) && !(token && bearer)) {
+      const presented = req.headers[CSRF_HEADER];
+      if (typeof presented !== "string" || !safeEqual(presented, csrfToken)) {
+        return reject(req, res, 403, "Missing or invalid CSRF token");
+      }
+    }
+    next();
+  };
+
+  return { token, csrfToken, middleware };
+}
@@ -0,0 +1,178 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  findSession,
+  readSessions,
+  removeSession,
+  upsertSession,
+  type SessionRecord,
+  type SessionStatus,
+} from "../src/sessions.js";
+import type { SessionManager, StartSessionRequest } from "./sessionManager.js";
+
+type QueueEntry = {
+  sessionId: string;
+  createIfMissing: boolean;
+};
+
+type QueueFile = {
+  entries: QueueEntry[];
+  haltOnFailure: boolean;
+  // Set when a queued session ends without succeeding while haltOnFailure is on.
+  halted?: { sessionId: string; status: SessionStatus; at: string };
+};
+
+export type QueueSnapshot = {
+  sessions: SessionRecord[];
+  haltOnFailure: boolean;
+  halted: QueueFile["halted"] | null;
+};
+
+export type RunQueue = {
+  list: () => QueueSnapshot;
+  enqueue: (request: StartSessionRequest) => SessionRecord;
+  // `ids` must be the full current queue in its new order.
+  reorder: (ids: string[]) => void;
+  cancel: (id: string) => SessionRecord;
+  setHaltOnFailure: (value: boolean) => void;
+  // Clears a halt and starts whatever can run.
+  resume: () => void;
+  pump: () => void;
+};
+
+export type RunQueueOptions = {
+  stateBaseDir: string;
+  manager: SessionManager;
+  log?: (line: string) => void;
+};
+
+export function queueFilePath(stateBaseDir: string): string {
+  return path.join(stateBaseDir, "queue.json");
+}
+
+function readQueue(stateBaseDir: string): QueueFile {
+  const file = queueFilePath(stateBaseDir);
+  const empty: QueueFile = { entries: [], haltOnFailure: false };
+  if (!fs.existsSync(file)) return empty;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    return Array.isArray(parsed?.entries) ? { ...empty, ...parsed } : empty;
+  } catch {
+    return empty;
+  }
+}
+
+export function createRunQueue(options: RunQueueOptions): RunQueue {
+  const { stateBaseDir, manager } = options;
+  const log = options.log ?? (() => {});
+
+  function save(update: (queue: QueueFile) => QueueFile): QueueFile {
+    const next = update(readQueue(stateBaseDir));
+    fs.writeFileSync(queueFilePath(stateBaseDir), JSON.stringify(next, null, 2));
+    return next;
+  }
+
+  function list(): QueueSnapshot {
+    const queue = readQueue(stateBaseDir);
+    const records = new Map(readSessions(stateBaseDir).map((s) => [s.id, s]));
+    return {
+      sessions: queue.entries.map((e) => records.get(e.sessionId)).filter((s): s is SessionRecord => Boolean(s)),
+      haltOnFailure: queue.haltOnFailure,
+      halted: queue.halted ?? null,
+    };
+  }
+
+  function enqueue(request: StartSessionRequest): SessionRecord {
+    const session = manager.prepare(request);
+    if (!request.createIfMissing && !fs.existsSync(session.workdir)) {
+      throw new Error(`Workdir not found: ${session.workdir}`);
+    }
+    session.queuedAt = session.startedAt;
+    upsertSession(stateBaseDir, session);
+    save((queue) => ({
+      ...queue,
+      entries: [...queue.entries, { sessionId: session.id, createIfMissing: request.createIfMissing }],
+    }));
+    pump();
+    return findSession(stateBaseDir, session.id) ?? session;
+  }
+
+  function reorder(ids: string[]) {
+    save((queue) => {
+      const current = queue.entries.map((e) => e.sessionId);
+      if (ids.length !== current.length || new Set(ids).size !== ids.length || ids.some((id) => !current.includes(id))) {
+        throw new Error("ids must list every queued session exactly once");
+      }
+      return { ...queue, entries: ids.map((id) => queue.entries.find((e) => e.sessionId === id)!) };
+    });
+    pump();
+  }
+
+  function cancel(id: string): SessionRecord {
+    const session = findSession(stateBaseDir, id);
+    const queue = readQueue(stateBaseDir);
+    if (!session || !queue.entries.some((e) => e.sessionId === id)) {
+      throw new Error(`Session is not queued: ${id}`);
+    }
+    save((q) => ({ ...q, entries: q.entries.filter((e) => e.sessionId !== id) }));
+    removeSession(stateBaseDir, id);
+    return session;
+  }
+
+  function setHaltOnFailure(value: boolean) {
+    save((queue) => ({ ...queue, haltOnFailure: value, ...(value ? {} : { halted: undefined }) }));
+    pump();
+  }
+
+  function resume() {
+    save((queue) => ({ ...queue, halted: undefined }));
+    pump();
+  }
+
+  function halt(sessionId: string, status: SessionStatus) {
+    log(`[queue] Halted: session ${sessionId} ended ${status}`);
+    save((queue) => ({ ...queue, halted: { sessionId, status, at: new Date().toISOString() } }));
+  }
+
+  // Starts every entry whose workdir is free, keeping per-workdir order: an entry
+  // never overtakes an earlier one for the same workdir.
+  function pump() {
+    const queue = readQueue(stateBaseDir);
+    if (queue.halted) return;
+    const blocked = new Set<string>();
+    for (const entry of queue.entries) {
+      const session = findSession(stateBaseDir, entry.sessionId);
+      if (!session) {
+        save((q) => ({ ...q, entries: q.entries.filter((e) => e.sessionId !== entry.sessionId) }));
+        continue;
+      }
+      if (blocked.has(session.workdir) || manager.isBusy(session.workdir)) {
+        blocked.add(session.workdir);
+        continue;
+      }
+      blocked.add(session.workdir);
+      save((q) => ({ ...q, entries: q.entries.filter((e) => e.sessionId !== entry.sessionId) }));
+      try {
+        manager.startRecord(session, entry.createIfMissing);
+        log(`[queue] Started queued session ${session.id}`);
+      } catch (err) {
+        session.status = "failed";
+        session.endedAt = new Date().toISOString();
+        session.reason = `Could not start from queue: ${(err as Error).message}`;
+        upsertSession(stateBaseDir, session);
+        log(`[queue] ${session.reason}`);
+        if (queue.haltOnFailure) return halt(session.id, session.status);
+      }
+    }
+  }
+
+  manager.onSessionEnd((session) => {
+    const ok = session.status === "succeeded" || session.status === "awaiting-approval";
+    if (session.queuedAt && !ok && readQueue(stateBaseDir).haltOnFailure) {
+      halt(session.id, session.status);
+    }
+    pump();
+  });
+
+  return { list, enqueue, reorder, cancel, setHaltOnFailure, resume, pump };
+}
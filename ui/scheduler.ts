@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { nextCronTime, parseCron } from "../src/cron.js";
+import { parseAgentPolicy, type AgentPolicy } from "../src/policy.js";
+import type { SessionManager, StartSessionRequest } from "./sessionManager.js";
+
+export type Schedule = {
+  id: string;
+  name?: string;
+  cron: string;
+  goal: string;
+  workdir: string;
+  maxIterations: number;
+  policy?: AgentPolicy;
+  enabled: boolean;
+  createdAt: string;
+  lastRunAt?: string;
+  lastSessionId?: string;
+  // Most recent due time that did not start a session, and why.
+  lastSkippedAt?: string;
+  lastSkipReason?: string;
+};
+
+export type ScheduleView = Schedule & { nextRunAt: string | null };
+
+export type Scheduler = {
+  list: () => ScheduleView[];
+  create: (input: unknown) => Schedule;
+  update: (id: string, input: unknown) => Schedule;
+  remove: (id: string) => void;
+  stop: () => void;
+};
+
+export type SchedulerOptions = {
+  stateBaseDir: string;
+  manager: SessionManager;
+  // Turns a due schedule into a start request, layering config like /api/start does.
+  requestFor: (schedule: Schedule) => StartSessionRequest;
+  log?: (line: string) => void;
+};
+
+// Cron has minute resolution, so a tick well inside a minute is enough.
+const TICK_MS = 15_000;
+
+export function schedulesFilePath(stateBaseDir: string): string {
+  return path.join(stateBaseDir, "schedules.json");
+}
+
+export function readSchedules(stateBaseDir: string): Schedule[] {
+  const file = schedulesFilePath(stateBaseDir);
+  if (!fs.existsSync(file)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveSchedules(stateBaseDir: string, update: (schedules: Schedule[]) => Schedule[]): Schedule[] {
+  const next = update(readSchedules(stateBaseDir));
+  fs.writeFileSync(schedulesFilePath(stateBaseDir), JSON.stringify(next, null, 2));
+  return next;
+}
+
+// Request input is untrusted; with `existing`, omitted fields keep their current values.
+function parseScheduleInput(input: unknown, existing?: Schedule): Omit<Schedule, "id" | "createdAt"> {
+  if (!input || typeof input !== "object") throw new Error("Expected a schedule object");
+  const raw = input as Record<string, unknown>;
+  const pick = <K extends keyof Schedule>(key: K) => (raw[key] !== undefined ? raw[key] : existing?.[key]);
+
+  const cron = pick("cron");
+  if (typeof cron !== "string" || !cron.trim()) throw new Error("cron is required");
+  parseCron(cron);
+  const goal = pick("goal");
+  if (typeof goal !== "string" || !goal.trim()) throw new Error("goal is required");
+  const workdir = pick("workdir");
+  if (typeof workdir !== "string" || !workdir.trim()) throw new Error("workdir is required");
+  const resolvedWorkdir = path.resolve(workdir);
+  if (!fs.existsSync(resolvedWorkdir)) throw new Error(`Workdir not found: ${resolvedWorkdir}`);
+  const maxIterations = Number(pick("maxIterations") ?? 0);
+  if (!Number.isInteger(maxIterations) || maxIterations < 0) {
+    throw new Error(`Invalid maxIterations: ${String(raw.maxIterations)}`);
+  }
+  const name = pick("name");
+  return {
+    name: typeof name === "string" && name.trim() ? name.trim() : undefined,
+    cron: cron.trim(),
+    goal: goal.trim(),
+    workdir: resolvedWorkdir,
+    maxIterations,
+    policy: raw.policy !== undefined ? parseAgentPolicy(raw.policy) : existing?.policy,
+    enabled: pick("enabled") !== false,
+  };
+}
+
+export function createScheduler(options: SchedulerOptions): Scheduler {
+  const { stateBaseDir, manager, requestFor } = options;
+  const log = options.log ?? (() => {});
+  // Next due time per schedule; only kept in memory, so runs missed while the server was down are not replayed.
+  const nextDue = new Map<string, Date | null>();
+
+  function nextFor(schedule: Schedule, after = new Date()): Date | null {
+    if (!schedule.enabled) return null;
+    try {
+      return nextCronTime(parseCron(schedule.cron), after);
+    } catch {
+      // A hand-edited schedules.json with a bad expression never fires.
+      return null;
+    }
+  }
+
+  function list(): ScheduleView[] {
+    return readSchedules(stateBaseDir).map((s) => {
+      if (!nextDue.has(s.id)) nextDue.set(s.id, nextFor(s));
+      return { ...s, nextRunAt: nextDue.get(s.id)?.toISOString() ?? null };
+    });
+  }
+
+  function create(input: unknown): Schedule {
+    const schedule: Schedule = { id: randomUUID(), createdAt: new Date().toISOString(), ...parseScheduleInput(input) };
+    saveSchedules(stateBaseDir, (schedules) => [...schedules, schedule]);
+    nextDue.set(schedule.id, nextFor(schedule));
+    return schedule;
+  }
+
+  function update(id: string, input: unknown): Schedule {
+    const existing = readSchedules(stateBaseDir).find((s) => s.id === id);
+    if (!existing) throw new Error(`Schedule not found: ${id}`);
+    const schedule: Schedule = { ...existing, ...parseScheduleInput(input, existing) };
+    saveSchedules(stateBaseDir, (schedules) => schedules.map((s) => (s.id === id ? schedule : s)));
+    nextDue.set(id, nextFor(schedule));
+    return schedule;
+  }
+
+  function remove(id: string) {
+    if (!readSchedules(stateBaseDir).some((s) => s.id === id)) throw new Error(`Schedule not found: ${id}`);
+    saveSchedules(stateBaseDir, (schedules) => schedules.filter((s) => s.id !== id));
+    nextDue.delete(id);
+  }
+
+  function record(id: string, patch: Partial<Schedule>) {
+    saveSchedules(stateBaseDir, (schedules) => schedules.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function fire(schedule: Schedule, due: Date) {
+    const label = schedule.name ?? schedule.goal.slice(0, 40);
+    if (manager.isBusy(schedule.workdir)) {
+      log(`[schedule] Skipped "${label}": a run is already in progress for ${schedule.workdir}`);
+      record(schedule.id, { lastSkippedAt: due.toISOString(), lastSkipReason: "workdir busy" });
+      return;
+    }
+    try {
+      const entry = manager.start({ ...requestFor(schedule), scheduleId: schedule.id });
+      log(`[schedule] Started "${label}" as session ${entry.session.id}`);
+      record(schedule.id, { lastRunAt: entry.session.startedAt, lastSessionId: entry.session.id });
+    } catch (err) {
+      const reason = (err as Error).message;
+      log(`[schedule] Could not start "${label}": ${reason}`);
+      record(schedule.id, { lastSkippedAt: due.toISOString(), lastSkipReason: reason });
+    }
+  }
+
+  function tick() {
+    const now = new Date();
+    for (const schedule of readSchedules(stateBaseDir)) {
+      if (!nextDue.has(schedule.id)) nextDue.set(schedule.id, nextFor(schedule, now));
+      const due = nextDue.get(schedule.id);
+      if (!schedule.enabled || !due || due > now) continue;
+      nextDue.set(schedule.id, nextFor(schedule, now));
+      fire(schedule, due);
+    }
+  }
+
+  list();
+  const timer = setInterval(tick, TICK_MS);
+  timer.unref();
+
+  return { list, create, update, remove, stop: () => clearInterval(timer) };
+}
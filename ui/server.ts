@@ -1,31 +1,57 @@
 import fs from "node:fs";
 import http from "node:http";
 import path from "node:path";
-import { randomUUID } from "node:crypto";
-import { spawn, ChildProcessWithoutNullStreams } from "node:child_process";
+import { spawn } from "node:child_process";
 import { fileURLToPath } from "node:url";
 import express from "express";
 import { resolveDefaultWorkdir, resolveStateBaseDir } from "../src/paths.js";
+import { resolveLoopRunner } from "../src/loopProcess.js";
+import { listIterations, readIteration, readIterationDiff } from "../src/iterations.js";
+import { parsePlan, type ParsedPlan } from "../src/plan.js";
+import { PROMPT_PHASES, promptSearchPath, resolvePromptTemplate } from "../src/prompts.js";
+import {
+  COMPLETION_SIGNAL_FIELD,
+  DEFAULT_COMPLETION_SIGNAL,
+  loadSpecTemplate,
+  normalizeSpecValues,
+  parseSpecTemplate,
+  renderSpec,
+  specTemplatePath,
+} from "../src/spec.js";
+import { archiveFileName, exportSession, importSession } from "../src/sessionArchive.js";
+import { replaySettings, replayWorkdir } from "../src/recording.js";
+import {
+  findSession,
+  isStateDirReused,
+  readSessions,
+  sessionDataDir,
+  sessionLogPath,
+  syncSessionFromState,
+  type SessionRecord,
+} from "../src/sessions.js";
+import { parseStallThresholds } from "../src/stall.js";
+import { APPROVAL_MODES, SANDBOX_MODES } from "../src/policy.js";
+import { DEFAULT_BACKEND } from "../src/agentBackend.js";
+import { resolveConfig, validateConfig, type MilhouseConfig } from "../src/config.js";
+import { readDeliveryLog, sendNotifications } from "../src/notify.js";
+import { sessionDiff } from "../src/workspaceDiff.js";
+import type { BudgetLimits } from "../src/usage.js";
+import { createServerAuth, generateToken, isLoopbackHost } from "./auth.js";
+import { createRunQueue } from "./runQueue.js";
+import { createScheduler } from "./scheduler.js";
+import { createSessionManager, type LiveSession, type StartSessionRequest } from "./sessionManager.js";
 
 export type StartServerOptions = {
   host?: string;
   port?: number;
   defaultWorkdir?: string;
   stateBaseDir?: string;
-};
-
-type SessionStatus = "running" | "succeeded" | "failed" | "stopped";
-
-type SessionRecord = {
-  id: string;
-  goal: string;
-  maxIterations: number;
-  workdir: string;
-  stateDir: string;
-  startedAt: string;
-  endedAt?: string;
-  status: SessionStatus;
-  threadId?: string;
+  priceTable?: string;
+  // Settings given to `milhouse ui` on the command line; layered over config files, under /api/start fields.
+  cliConfig?: MilhouseConfig;
+  // Token auth is on unless explicitly disabled; `token` defaults to MILHOUSE_TOKEN or a random one.
+  auth?: boolean;
+  token?: string;
 };
 
 type ArtifactSnapshot = {
@@ -35,10 +61,9 @@ type ArtifactSnapshot = {
   threadId?: string;
 };
 
-type Client = { id: string; res: express.Response };
-
 type ServerContext = {
   app: express.Express;
+  token: string | null;
   stop: () => void;
 };
 
@@ -56,22 +81,48 @@ function readArtifacts(stateDir: string): ArtifactSnapshot {
   return snapshot;
 }
 
-function resolveLoopRunner(runtimeRoot: string): { command: string; args: string[] } {
-  const jsPath = path.join(runtimeRoot, "src", "loop-runner.js");
-  if (fs.existsSync(jsPath)) {
-    return { command: process.execPath, args: [jsPath] };
-  }
+function readPlan(stateDir: string): ParsedPlan | null {
+  const planFile = path.join(stateDir, "IMPLEMENTATION_PLAN.md");
+  if (!fs.existsSync(planFile)) return null;
+  return parsePlan(fs.readFileSync(planFile, "utf8"));
+}
 
-  const tsPath = path.join(runtimeRoot, "src", "loop-runner.ts");
-  if (fs.existsSync(tsPath)) {
-    const bin = process.platform === "win32" ? "tsx.cmd" : "tsx";
-    const tsxPath = path.join(runtimeRoot, "node_modules", ".bin", bin);
-    if (fs.existsSync(tsxPath)) {
-      return { command: tsxPath, args: [tsPath] };
-    }
+const STATE_DIR_REUSED = "State dir has been reused by a later session";
+
+// Once a later session has taken over the plan file, the session's last recorded snapshot stands in for it;
+// undefined when there is none.
+function readSessionPlan(session: SessionRecord): ParsedPlan | null | undefined {
+  if (!isStateDirReused(session)) return readPlan(session.stateDir);
+  const last = listIterations(sessionDataDir(session)).pop();
+  const plan = last ? readIteration(sessionDataDir(session), last.index)?.plan : null;
+  return plan != null ? parsePlan(plan) : undefined;
+}
+
+function parseBudget(input: unknown): BudgetLimits | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const raw = input as Record<string, unknown>;
+  const budget: BudgetLimits = {};
+  for (const key of ["maxInputTokens", "maxOutputTokens", "maxCostUsd"] as const) {
+    const value = raw[key];
+    if (value == null || value === "") continue;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`Invalid budget.${key}: ${String(value)}`);
+    budget[key] = parsed;
   }
+  return Object.keys(budget).length ? budget : undefined;
+}
 
-  throw new Error("Loop runner not found (expected dist build output).");
+// Fills input-prompt.md from the spec form; the rendered spec becomes the run's goal.
+function goalFromSpec(input: unknown): { goal: string; completionSignal?: string; maxIterations?: number } {
+  const template = loadSpecTemplate();
+  const fields = parseSpecTemplate(template);
+  const values = normalizeSpecValues(input, fields);
+  const maxIterations = Number(values.MAX_ITERATIONS);
+  return {
+    goal: renderSpec(template, fields, values),
+    completionSignal: values[COMPLETION_SIGNAL_FIELD]?.trim() || DEFAULT_COMPLETION_SIGNAL,
+    maxIterations: Number.isInteger(maxIterations) && maxIterations > 0 ? maxIterations : undefined,
+  };
 }
 
 function createServerContext(options: StartServerOptions): ServerContext {
@@ -81,129 +132,72 @@ function createServerContext(options: StartServerOptions): ServerContext {
   const defaultWorkdir = options.defaultWorkdir ?? resolveDefaultWorkdir();
   const stateBaseDir = options.stateBaseDir ?? resolveStateBaseDir();
   fs.mkdirSync(stateBaseDir, { recursive: true });
-  const sessionsFile = path.join(stateBaseDir, "sessions.json");
 
-  const loopRunner = resolveLoopRunner(runtimeRoot);
+  // Fail fast at startup rather than on the first run.
+  resolveLoopRunner(runtimeRoot);
+
+  const auth = createServerAuth({
+    token: options.auth === false ? null : (options.token ?? (process.env.MILHOUSE_TOKEN?.trim() || generateToken())),
+    bindHost: options.host ?? "127.0.0.1",
+  });
 
   const app = express();
   const jsonParser = express.json({ limit: "1mb" });
   app.get("/favicon.ico", (_req, res) => res.status(204).end());
+  app.use(auth.middleware);
   app.use(express.static(path.join(__dirname, "public")));
 
-  const clients: Client[] = [];
-  let child: ChildProcessWithoutNullStreams | null = null;
-  let currentSession: SessionRecord | null = null;
-  let logBuffer: string[] = [];
-
-  function broadcast(line: string) {
-    logBuffer.push(line);
-    const payload = `data: ${line}\n\n`;
-    clients.forEach((c) => c.res.write(payload));
-  }
-
-  function saveSessions(update: (sessions: SessionRecord[]) => SessionRecord[]) {
-    let sessions: SessionRecord[] = [];
-    if (fs.existsSync(sessionsFile)) {
-      try {
-        sessions = JSON.parse(fs.readFileSync(sessionsFile, "utf8"));
-      } catch {
-        sessions = [];
-      }
-    }
-    const next = update(sessions);
-    fs.writeFileSync(sessionsFile, JSON.stringify(next, null, 2));
-  }
-
-  function normalizeWorkdir(input: string | undefined): string {
-    if (!input) return defaultWorkdir;
-    return path.isAbsolute(input) ? input : path.resolve(defaultWorkdir, input);
-  }
-
-  function startSession(goal: string, maxIterations: number, workdirInput: string, createIfMissing: boolean) {
-    if (child) {
-      throw new Error("A run is already in progress");
-    }
+  // Readable only by same-origin pages; sent back as X-CSRF-Token on every POST.
+  app.get("/api/csrf", (_req, res) => {
+    res.json({ token: auth.csrfToken });
+  });
 
-    let workdir = normalizeWorkdir(workdirInput);
-    if (!fs.existsSync(workdir)) {
-      if (createIfMissing) {
-        fs.mkdirSync(workdir, { recursive: true });
-      } else {
-        throw new Error(`Workdir not found: ${workdir}`);
-      }
+  const manager = createSessionManager({
+    runtimeRoot,
+    stateBaseDir,
+    defaultWorkdir,
+    priceTable: options.priceTable,
+  });
+  const broadcast = manager.broadcastAll;
+  // Sinks come from the session's workdir config, so a project can have its own webhook.
+  const notify = (session: SessionRecord) => {
+    let config: MilhouseConfig;
+    try {
+      config = configFor(session.workdir).config;
+    } catch (err) {
+      broadcast(`[notify] Skipped: ${(err as Error).message}`);
+      return;
     }
+    void sendNotifications(config.notify, session, { stateBaseDir, log: broadcast });
+  };
+  manager.onSessionStart(notify);
+  manager.onSessionEnd(notify);
 
-    const stateDir = path.join(stateBaseDir, Buffer.from(workdir).toString("base64url"));
-    fs.mkdirSync(stateDir, { recursive: true });
-
-    logBuffer = [];
-    const id = randomUUID();
-    const startedAt = new Date().toISOString();
-    currentSession = {
-      id,
-      goal,
-      maxIterations,
-      workdir,
-      stateDir,
-      startedAt,
-      status: "running",
-    };
-
-    saveSessions((sessions) => [...sessions, currentSession!]);
-
-    broadcast(`[milhouse] Starting run…`);
-    broadcast(`[milhouse] workdir: ${workdir}`);
-    broadcast(`[milhouse] state dir: ${stateDir}`);
+  const queue = createRunQueue({ stateBaseDir, manager, log: broadcast });
+  // Picks up entries left queued by a previous server process.
+  queue.pump();
 
-    const args = [
-      ...loopRunner.args,
-      "--goal",
-      goal,
-      "--max-iterations",
-      String(maxIterations),
-      "--workdir",
-      workdir,
-      "--state-dir",
-      stateDir,
-    ];
+  // Legacy routes act on `?session=<id>`, or the most recently started session.
+  function resolveLive(req: express.Request): LiveSession | undefined {
+    const id = typeof req.query.session === "string" ? req.query.session : undefined;
+    return id ? manager.get(id) : manager.latest();
+  }
 
-    child = spawn(loopRunner.command, args, {
-      cwd: runtimeRoot,
-      env: process.env,
-    });
+  function configFor(workdir: string, api?: MilhouseConfig) {
+    return resolveConfig({ workdir: path.resolve(workdir), cli: options.cliConfig, api });
+  }
 
-    child.stdout.on("data", (data: Buffer) => {
-      const lines = data.toString().split(/\r?\n/).filter(Boolean);
-      lines.forEach((l) => {
-        broadcast(l);
-        const threadMatch = l.match(/thread:\s*([0-9a-zA-Z-]+)/);
-        if (threadMatch && currentSession) currentSession.threadId = threadMatch[1];
-      });
-    });
-    child.stderr.on("data", (data: Buffer) => {
-      data
-        .toString()
-        .split(/\r?\n/)
-        .filter(Boolean)
-        .forEach((l) => broadcast(`[stderr] ${l}`));
-    });
-    child.on("exit", (code, signal) => {
-      broadcast(`[exit] code=${code ?? "null"} signal=${signal ?? "null"}`);
-      if (currentSession) {
-        currentSession.status = code === 0 ? "succeeded" : signal === "SIGTERM" ? "stopped" : "failed";
-        currentSession.endedAt = new Date().toISOString();
-        saveSessions((sessions) =>
-          sessions.map((s) => (s.id === currentSession!.id ? currentSession! : s)),
-        );
-      }
-      child = null;
-    });
+  function findRecord(id: string): SessionRecord | undefined {
+    return manager.get(id)?.session ?? findSession(stateBaseDir, id);
   }
 
-  function stopSession() {
-    if (child) {
-      child.kill();
-    }
+  function describeLive(entry: LiveSession | undefined) {
+    if (entry?.child) syncSessionFromState(entry.session);
+    return {
+      running: Boolean(entry?.child),
+      session: entry?.session ?? null,
+      artifacts: entry ? readArtifacts(entry.session.stateDir) : {},
+    };
   }
 
   function parseBrowseDefaultPath(req: express.Request): string | undefined {
@@ -419,55 +413,223 @@ try {
   }
 
   app.get("/api/events", (req, res) => {
-    res.writeHead(200, {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    });
-    const id = randomUUID();
-    clients.push({ id, res });
-    logBuffer.forEach((line) => res.write(`data: ${line}\n\n`));
-    req.on("close", () => {
-      const idx = clients.findIndex((c) => c.id === id);
-      if (idx >= 0) clients.splice(idx, 1);
-    });
+    const entry = resolveLive(req);
+    if (!entry || !manager.subscribe(entry.session.id, req, res)) {
+      res.status(404).json({ error: "No session" });
+    }
+  });
+
+  app.get("/api/sessions/:id/events", (req, res) => {
+    if (!manager.subscribe(req.params.id, req, res)) {
+      res.status(404).json({ error: "Session is not live" });
+    }
+  });
+
+  app.get("/api/status", (req, res) => {
+    res.json(describeLive(resolveLive(req)));
+  });
+
+  app.get("/api/sessions/:id/status", (req, res) => {
+    const entry = manager.get(req.params.id);
+    if (entry) return res.json(describeLive(entry));
+    // Finished (or imported) sessions are described from their record and state dir.
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    res.json({ running: false, session, artifacts: readArtifacts(session.stateDir) });
   });
 
-  app.get("/api/status", (_req, res) => {
+  app.get("/api/live", (_req, res) => {
     res.json({
-      running: Boolean(child),
-      session: currentSession,
-      artifacts: currentSession ? readArtifacts(currentSession.stateDir) : {},
+      sessions: manager.list().map((entry) => ({ running: Boolean(entry.child), session: entry.session })),
     });
   });
 
   app.get("/api/sessions", (_req, res) => {
-    let sessions: SessionRecord[] = [];
-    if (fs.existsSync(sessionsFile)) {
-      try {
-        sessions = JSON.parse(fs.readFileSync(sessionsFile, "utf8"));
-      } catch {
-        sessions = [];
-      }
-    }
+    // Live records carry usage that has not been written back to sessions.json yet.
+    const sessions = readSessions(stateBaseDir).map((s) => {
+      const entry = manager.get(s.id);
+      return entry?.child ? syncSessionFromState(entry.session) : s;
+    });
     res.json({ sessions });
   });
 
   app.post("/api/browse", express.text({ type: "*/*", limit: "64kb" }), handleBrowse);
 
+  // Shared by /api/start and /api/queue; throws on invalid input.
+  function startRequestFrom(body: Record<string, unknown>): StartSessionRequest {
+    const {
+      goal,
+      spec,
+      maxIterations,
+      workdir = defaultWorkdir,
+      createIfMissing = true,
+      budget,
+      gitCheckpoints = false,
+      verifyCommand,
+      verifyTimeoutSec,
+      vars,
+      stall,
+      policy,
+      backend,
+      pipeline,
+      parallel,
+      record = false,
+      reviewPlan = false,
+      pauseEvery,
+    } = body;
+    if (spec != null && goal) throw new Error("Send either goal or spec, not both");
+    if (spec == null && (!goal || typeof goal !== "string")) throw new Error("goal is required");
+    if (typeof workdir !== "string") throw new Error("workdir must be a string");
+    const pauseAfter = pauseEvery == null || pauseEvery === "" ? 0 : Number(pauseEvery);
+    if (!Number.isInteger(pauseAfter) || pauseAfter < 0) throw new Error(`Invalid pauseEvery: ${String(pauseEvery)}`);
+    const fromSpec = spec != null ? goalFromSpec(spec) : undefined;
+    // The spec's MAX_ITERATIONS is part of the goal the agent reads, so a different limit alongside it is an error.
+    if (fromSpec?.maxIterations != null && maxIterations != null && Number(maxIterations) !== fromSpec.maxIterations) {
+      throw new Error(`maxIterations ${String(maxIterations)} conflicts with the spec's MAX_ITERATIONS ${fromSpec.maxIterations}`);
+    }
+    const api = validateConfig(
+      {
+        maxIterations: maxIterations ?? fromSpec?.maxIterations,
+        verifyCommand,
+        verifyTimeoutSec,
+        vars,
+        policy,
+        backend,
+        pipeline,
+        parallel,
+      },
+      "request",
+    );
+    const { config } = configFor(workdir, api);
+    return {
+      goal: fromSpec?.goal ?? String(goal),
+      maxIterations: config.maxIterations ?? 0,
+      workdir,
+      createIfMissing: Boolean(createIfMissing),
+      budget: parseBudget(budget),
+      gitCheckpoints: Boolean(gitCheckpoints),
+      verifyCommand: config.verifyCommand,
+      verifyTimeoutSec: config.verifyTimeoutSec,
+      vars: config.vars,
+      completionSignal: fromSpec?.completionSignal,
+      stall: parseStallThresholds(stall),
+      policy: config.policy,
+      promptsDir: config.promptsDir,
+      backend: config.backend !== DEFAULT_BACKEND ? config.backend : undefined,
+      pipeline: config.pipeline,
+      parallel: config.parallel,
+      record: Boolean(record),
+      reviewPlan: Boolean(reviewPlan),
+      pauseEvery: pauseAfter || undefined,
+    };
+  }
+
   app.post("/api/start", jsonParser, (req, res) => {
-    const { goal, maxIterations = 0, workdir = defaultWorkdir, createIfMissing = true } = req.body || {};
-    if (!goal || typeof goal !== "string") {
-      return res.status(400).json({ error: "goal is required" });
+    try {
+      const entry = manager.start(startRequestFrom(req.body || {}));
+      res.json({ ok: true, session: entry.session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
     }
+  });
+
+  const scheduler = createScheduler({
+    stateBaseDir,
+    manager,
+    log: broadcast,
+    requestFor: (schedule) =>
+      startRequestFrom({
+        goal: schedule.goal,
+        workdir: schedule.workdir,
+        maxIterations: schedule.maxIterations,
+        policy: schedule.policy,
+        createIfMissing: false,
+      }),
+  });
+
+  // Most recent webhook and command hook deliveries, oldest first.
+  app.get("/api/notifications", (_req, res) => {
+    res.json({ attempts: readDeliveryLog(stateBaseDir) });
+  });
+
+  app.get("/api/schedules", (_req, res) => {
+    res.json({ schedules: scheduler.list() });
+  });
+
+  app.post("/api/schedules", jsonParser, (req, res) => {
     try {
-      startSession(goal, Number(maxIterations) || 0, workdir, Boolean(createIfMissing));
-      res.json({ ok: true, session: currentSession });
+      res.json({ ok: true, schedule: scheduler.create(req.body) });
     } catch (err) {
       res.status(400).json({ error: (err as Error).message });
     }
   });
 
+  // Partial update, e.g. `{ "enabled": false }`.
+  app.post("/api/schedules/:id", jsonParser, (req, res) => {
+    try {
+      res.json({ ok: true, schedule: scheduler.update(req.params.id, req.body) });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  app.post("/api/schedules/:id/delete", (req, res) => {
+    try {
+      scheduler.remove(req.params.id);
+      res.json({ ok: true });
+    } catch (err) {
+      res.status(404).json({ error: (err as Error).message });
+    }
+  });
+
+  app.get("/api/queue", (_req, res) => {
+    res.json(queue.list());
+  });
+
+  // Same body as /api/start; the run starts once earlier entries for its workdir are done.
+  app.post("/api/queue", jsonParser, (req, res) => {
+    try {
+      const session = queue.enqueue(startRequestFrom(req.body || {}));
+      res.json({ ok: true, session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  app.post("/api/queue/reorder", jsonParser, (req, res) => {
+    const ids = req.body?.ids;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) {
+      return res.status(400).json({ error: "ids must be an array of session ids" });
+    }
+    try {
+      queue.reorder(ids);
+      res.json({ ok: true, ...queue.list() });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  app.post("/api/queue/settings", jsonParser, (req, res) => {
+    const haltOnFailure = req.body?.haltOnFailure;
+    if (typeof haltOnFailure !== "boolean") return res.status(400).json({ error: "haltOnFailure must be a boolean" });
+    queue.setHaltOnFailure(haltOnFailure);
+    res.json({ ok: true, ...queue.list() });
+  });
+
+  app.post("/api/queue/resume", (_req, res) => {
+    queue.resume();
+    res.json({ ok: true, ...queue.list() });
+  });
+
+  app.post("/api/queue/:id/cancel", (req, res) => {
+    try {
+      const session = queue.cancel(req.params.id);
+      res.json({ ok: true, session });
+    } catch (err) {
+      res.status(404).json({ error: (err as Error).message });
+    }
+  });
+
   app.use((err: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
     if (req.method === "POST" && req.path === "/api/browse") {
       const status = typeof (err as any)?.status === "number" ? (err as any).status : undefined;
@@ -479,17 +641,213 @@ try {
     next(err);
   });
 
-  app.post("/api/stop", (_req, res) => {
-    stopSession();
+  app.post("/api/stop", (req, res) => {
+    const entry = resolveLive(req);
+    if (entry) manager.stop(entry.session.id);
+    res.json({ ok: true });
+  });
+
+  app.post("/api/sessions/:id/stop", (req, res) => {
+    if (!manager.get(req.params.id)) return res.status(404).json({ error: "Session is not live" });
+    manager.stop(req.params.id);
     res.json({ ok: true });
   });
 
-  app.get("/api/artifacts", (_req, res) => {
-    if (!currentSession) return res.json({});
-    res.json(readArtifacts(currentSession.stateDir));
+  app.post("/api/sessions/:id/resume", (req, res) => {
+    try {
+      const entry = manager.resume(req.params.id);
+      res.json({ ok: true, session: entry.session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  // Body: `{ plan }` to replace the plan before the loop continues; omit it to approve the plan as it is.
+  app.post("/api/sessions/:id/approve", jsonParser, (req, res) => {
+    const plan = req.body?.plan;
+    if (plan != null && typeof plan !== "string") return res.status(400).json({ error: "plan must be a string" });
+    try {
+      const entry = manager.approve(req.params.id, plan ?? undefined);
+      res.json({ ok: true, session: entry.session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
   });
 
-  return { app, stop: stopSession };
+  app.post("/api/sessions/:id/reject", jsonParser, (req, res) => {
+    const reason = req.body?.reason;
+    if (reason != null && typeof reason !== "string") return res.status(400).json({ error: "reason must be a string" });
+    try {
+      const session = manager.reject(req.params.id, reason ?? undefined);
+      res.json({ ok: true, session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  // Re-runs the loop on the session's recorded agent turns, as a new session in a scratch workdir.
+  app.post("/api/sessions/:id/replay", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    try {
+      const entry = manager.start({
+        ...replaySettings(session),
+        workdir: replayWorkdir(stateBaseDir, session),
+        createIfMissing: true,
+      });
+      res.json({ ok: true, session: entry.session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  app.post("/api/sessions/:id/rollback", jsonParser, (req, res) => {
+    const iteration = Number(req.body?.iteration);
+    if (!Number.isInteger(iteration) || iteration < 0) {
+      return res.status(400).json({ error: "iteration is required" });
+    }
+    try {
+      const session = manager.rollback(req.params.id, iteration);
+      res.json({ ok: true, session });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  app.get("/api/sessions/:id/export", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    if (manager.get(session.id)?.child) syncSessionFromState(session);
+    res.setHeader("Content-Type", "application/gzip");
+    res.setHeader("Content-Disposition", `attachment; filename="${archiveFileName(session)}"`);
+    res.send(exportSession(session));
+  });
+
+  // Body is the raw archive written by `milhouse export` or the export route.
+  app.post("/api/sessions/import", express.raw({ type: () => true, limit: "200mb" }), (req, res) => {
+    if (!Buffer.isBuffer(req.body) || !req.body.length) return res.status(400).json({ error: "Archive is required" });
+    try {
+      res.json({ ok: true, session: importSession(stateBaseDir, req.body) });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  // The captured log stream, for sessions that are no longer live (or were imported).
+  app.get("/api/sessions/:id/log", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    const file = sessionLogPath(session);
+    if (!fs.existsSync(file)) return res.status(404).json({ error: "No log captured for this session" });
+    res.type("text/plain").send(fs.readFileSync(file, "utf8"));
+  });
+
+  app.get("/api/sessions/:id/iterations", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    res.json({ iterations: listIterations(sessionDataDir(session)) });
+  });
+
+  app.get("/api/sessions/:id/iterations/:index", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    const iteration = readIteration(sessionDataDir(session), Number(req.params.index));
+    if (!iteration) return res.status(404).json({ error: "Iteration not found" });
+    res.json(iteration);
+  });
+
+  // Unified diff of what one turn changed in the workdir.
+  app.get("/api/sessions/:id/iterations/:index/diff", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    const index = Number(req.params.index);
+    const iteration = readIteration(sessionDataDir(session), index);
+    if (!iteration?.changes) return res.status(404).json({ error: "No changes recorded for this iteration" });
+    res.type("text/plain").send(readIterationDiff(sessionDataDir(session), index) ?? "");
+  });
+
+  // Net diff over every recorded turn of the session.
+  app.get("/api/sessions/:id/diff", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    const patch = sessionDiff(session.workdir, sessionDataDir(session));
+    if (patch == null) return res.status(404).json({ error: "No changes recorded for this session" });
+    res.type("text/plain").send(patch);
+  });
+
+  // Settings a new run in this workdir would start with, and where each came from; prefills the start form.
+  app.get("/api/config", (req, res) => {
+    const workdir = typeof req.query.workdir === "string" && req.query.workdir.trim() ? req.query.workdir : defaultWorkdir;
+    try {
+      const { config, sources, layers } = configFor(workdir);
+      const files = layers.filter((l) => l.file).map((l) => ({ source: l.source, file: l.file }));
+      res.json({ config, sources, files, choices: { sandboxModes: SANDBOX_MODES, approvalModes: APPROVAL_MODES } });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  });
+
+  app.get("/api/spec", (_req, res) => {
+    try {
+      res.json({ template: specTemplatePath(), fields: parseSpecTemplate(loadSpecTemplate()) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  });
+
+  // Which template file each phase would use for a workdir (or the selected session's workdir).
+  app.get("/api/prompts", (req, res) => {
+    const requested = typeof req.query.workdir === "string" && req.query.workdir.trim() ? req.query.workdir : null;
+    const workdir = path.resolve(requested ?? resolveLive(req)?.session.workdir ?? defaultWorkdir);
+    let config: MilhouseConfig;
+    try {
+      config = configFor(workdir).config;
+    } catch (err) {
+      return res.status(400).json({ error: (err as Error).message });
+    }
+    const { promptsDir } = config;
+    const names = config.pipeline ? [...new Set(config.pipeline.map((phase) => phase.prompt))] : PROMPT_PHASES;
+    const templates = names.map((phase) => {
+      try {
+        return resolvePromptTemplate(phase, workdir, promptsDir);
+      } catch (err) {
+        return { phase, error: (err as Error).message };
+      }
+    });
+    res.json({ workdir, searchPath: promptSearchPath(workdir, promptsDir), templates });
+  });
+
+  app.get("/api/plan", (req, res) => {
+    const id = typeof req.query.session === "string" ? req.query.session : undefined;
+    const session = id ? findRecord(id) : manager.latest()?.session;
+    if (!session) return res.json({ plan: null });
+    const plan = readSessionPlan(session);
+    if (plan === undefined) return res.status(409).json({ error: STATE_DIR_REUSED });
+    res.json({ session: session.id, plan });
+  });
+
+  app.get("/api/sessions/:id/plan", (req, res) => {
+    const session = findRecord(req.params.id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    const plan = readSessionPlan(session);
+    if (plan === undefined) return res.status(409).json({ error: STATE_DIR_REUSED });
+    res.json({ session: session.id, plan });
+  });
+
+  app.get("/api/artifacts", (req, res) => {
+    const entry = resolveLive(req);
+    if (!entry) return res.json({});
+    res.json(readArtifacts(entry.session.stateDir));
+  });
+
+  return {
+    app,
+    token: auth.token,
+    stop: () => {
+      scheduler.stop();
+      manager.stopAll();
+    },
+  };
 }
 
 function listenOnce(app: express.Express, host: string, port: number): Promise<http.Server> {
@@ -501,8 +859,11 @@ function listenOnce(app: express.Express, host: string, port: number): Promise<h
 
 export async function startServer(
   options: StartServerOptions = {},
-): Promise<{ url: string; host: string; port: number; close: () => Promise<void> }> {
+): Promise<{ url: string; host: string; port: number; token: string | null; close: () => Promise<void> }> {
   const host = options.host ?? "127.0.0.1";
+  if (options.auth === false && !isLoopbackHost(host)) {
+    throw new Error(`Refusing to listen on ${host} with auth disabled; drop --no-auth or bind to 127.0.0.1`);
+  }
   const preferredPort = options.port ?? (process.env.PORT ? Number(process.env.PORT) : 4173);
 
   const ctx = createServerContext(options);
@@ -521,7 +882,11 @@ export async function startServer(
 
   const address = server.address();
   const port = typeof address === "object" && address ? address.port : preferredPort;
-  const url = `http://${host}:${port}`;
+  const urlHost = host.includes(":") ? `[${host}]` : host;
+  // Opening this URL once stores the token in a cookie.
+  const url = ctx.token
+    ? `http://${urlHost}:${port}/?token=${encodeURIComponent(ctx.token)}`
+    : `http://${urlHost}:${port}`;
 
   const close = async () => {
     ctx.stop();
@@ -530,5 +895,5 @@ export async function startServer(
     });
   };
 
-  return { url, host, port, close };
+  return { url, host, port, token: ctx.token, close };
 }
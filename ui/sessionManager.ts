@@ -0,0 +1,444 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type express from "express";
+import { parseLoopEvent, type LoopEvent } from "../src/loopEvents.js";
+import {
+  matchThreadId,
+  onLines,
+  readLoopOutcome,
+  sessionStatusFromExit,
+  spawnLoopRunner,
+  type LoopRunnerChild,
+} from "../src/loopProcess.js";
+import { rollbackToCheckpoint } from "../src/checkpoints.js";
+import { recordingPath } from "../src/recording.js";
+import type { PipelinePhase } from "../src/pipeline.js";
+import type { AgentPolicy } from "../src/policy.js";
+import type { TemplateVars } from "../src/prompts.js";
+import {
+  appendSessionLog,
+  assertWritable,
+  findSession,
+  readSessions,
+  readStoredThreadId,
+  resolveSessionStateDir,
+  sessionBranchName,
+  sessionDataDir,
+  syncSessionFromState,
+  upsertSession,
+  type SessionRecord,
+} from "../src/sessions.js";
+import type { StallThresholds } from "../src/stall.js";
+import type { BudgetLimits } from "../src/usage.js";
+
+type Client = { id: string; res: express.Response };
+
+// Replayed to clients that connect mid-run; `item.updated` chatter makes an unbounded buffer too big.
+const EVENT_BUFFER_LIMIT = 500;
+// The full log is in the session's log file; clients connecting mid-run only get the tail.
+const LOG_BUFFER_LIMIT = 2000;
+
+export type LiveSession = {
+  session: SessionRecord;
+  child: LoopRunnerChild | null;
+  logBuffer: string[];
+  eventBuffer: LoopEvent[];
+  clients: Client[];
+};
+
+export type StartSessionRequest = {
+  goal: string;
+  maxIterations: number;
+  workdir?: string;
+  createIfMissing: boolean;
+  budget?: BudgetLimits;
+  gitCheckpoints?: boolean;
+  verifyCommand?: string;
+  verifyTimeoutSec?: number;
+  vars?: TemplateVars;
+  completionSignal?: string;
+  stall?: Partial<StallThresholds>;
+  policy?: AgentPolicy;
+  promptsDir?: string;
+  backend?: string;
+  record?: boolean;
+  replayOf?: string;
+  pipeline?: PipelinePhase[];
+  parallel?: number;
+  reviewPlan?: boolean;
+  pauseEvery?: number;
+  scheduleId?: string;
+};
+
+export type SessionManagerOptions = {
+  runtimeRoot: string;
+  stateBaseDir: string;
+  defaultWorkdir: string;
+  priceTable?: string;
+};
+
+export type SessionManager = {
+  start: (request: StartSessionRequest) => LiveSession;
+  // Builds a `queued` record without persisting or starting it; see startRecord.
+  prepare: (request: StartSessionRequest) => SessionRecord;
+  startRecord: (session: SessionRecord, createIfMissing: boolean) => LiveSession;
+  isBusy: (workdir: string) => boolean;
+  onSessionStart: (listener: (session: SessionRecord) => void) => void;
+  onSessionEnd: (listener: (session: SessionRecord) => void) => void;
+  resume: (id: string) => LiveSession;
+  // Resume a session awaiting approval, after replacing its plan when one is given.
+  approve: (id: string, plan?: string) => LiveSession;
+  reject: (id: string, reason?: string) => SessionRecord;
+  rollback: (id: string, iteration: number) => SessionRecord;
+  stop: (id: string) => boolean;
+  stopAll: () => void;
+  get: (id: string) => LiveSession | undefined;
+  latest: () => LiveSession | undefined;
+  list: () => LiveSession[];
+  subscribe: (id: string, req: express.Request, res: express.Response) => boolean;
+  broadcastAll: (line: string) => void;
+};
+
+export function createSessionManager(options: SessionManagerOptions): SessionManager {
+  const { runtimeRoot, stateBaseDir, defaultWorkdir, priceTable } = options;
+  const live = new Map<string, LiveSession>();
+  const startListeners: ((session: SessionRecord) => void)[] = [];
+  const endListeners: ((session: SessionRecord) => void)[] = [];
+  let latestId: string | null = null;
+
+  function broadcast(entry: LiveSession, line: string) {
+    entry.logBuffer.push(line);
+    if (entry.logBuffer.length > LOG_BUFFER_LIMIT) entry.logBuffer.shift();
+    appendSessionLog(entry.session, line);
+    const payload = `data: ${line}\n\n`;
+    entry.clients.forEach((c) => c.res.write(payload));
+  }
+
+  function formatEvent(event: LoopEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+  }
+
+  function broadcastEvent(entry: LiveSession, event: LoopEvent) {
+    entry.eventBuffer.push(event);
+    if (entry.eventBuffer.length > EVENT_BUFFER_LIMIT) entry.eventBuffer.shift();
+    const payload = formatEvent(event);
+    entry.clients.forEach((c) => c.res.write(payload));
+  }
+
+  function broadcastAll(line: string) {
+    const payload = `data: ${line}\n\n`;
+    live.forEach((entry) => entry.clients.forEach((c) => c.res.write(payload)));
+  }
+
+  // A finished run stays live only while someone is still watching its stream.
+  function release(entry: LiveSession) {
+    if (entry.child || entry.clients.length) return;
+    if (live.get(entry.session.id) === entry) live.delete(entry.session.id);
+  }
+
+  function normalizeWorkdir(input: string | undefined): string {
+    if (!input) return defaultWorkdir;
+    return path.isAbsolute(input) ? input : path.resolve(defaultWorkdir, input);
+  }
+
+  function findRunning(workdir: string): LiveSession | undefined {
+    return [...live.values()].find((entry) => entry.child && entry.session.workdir === workdir);
+  }
+
+  function prepare(request: StartSessionRequest): SessionRecord {
+    const workdir = normalizeWorkdir(request.workdir);
+    const id = randomUUID();
+    // Parallel builders merge back onto the session branch, which only checkpoints create.
+    const parallel = request.parallel && request.parallel > 1 ? request.parallel : undefined;
+    return {
+      id,
+      goal: request.goal,
+      maxIterations: request.maxIterations,
+      workdir,
+      stateDir: resolveSessionStateDir(stateBaseDir, workdir),
+      startedAt: new Date().toISOString(),
+      status: "queued",
+      budget: request.budget,
+      ...(request.gitCheckpoints || parallel ? { gitCheckpoints: true, branch: sessionBranchName(id) } : {}),
+      ...(request.verifyCommand
+        ? { verifyCommand: request.verifyCommand, verifyTimeoutSec: request.verifyTimeoutSec }
+        : {}),
+      ...(request.vars ? { vars: request.vars } : {}),
+      ...(request.completionSignal ? { completionSignal: request.completionSignal } : {}),
+      ...(request.stall ? { stall: request.stall } : {}),
+      ...(request.policy ? { policy: request.policy } : {}),
+      ...(request.promptsDir ? { promptsDir: request.promptsDir } : {}),
+      ...(request.backend ? { backend: request.backend } : {}),
+      ...(request.record ? { recorded: true } : {}),
+      ...(request.replayOf ? { replayOf: request.replayOf } : {}),
+      ...(request.pipeline ? { pipeline: request.pipeline } : {}),
+      ...(parallel ? { parallel } : {}),
+      ...(request.reviewPlan ? { reviewPlan: true } : {}),
+      ...(request.pauseEvery ? { pauseEvery: request.pauseEvery } : {}),
+      ...(request.scheduleId ? { scheduleId: request.scheduleId } : {}),
+    };
+  }
+
+  function start(request: StartSessionRequest): LiveSession {
+    return startRecord(prepare(request), request.createIfMissing);
+  }
+
+  function startRecord(session: SessionRecord, createIfMissing: boolean): LiveSession {
+    const { workdir, stateDir } = session;
+
+    // Sessions on the same workdir share a state dir, so only one may run at a time.
+    if (findRunning(workdir)) {
+      throw new Error(`A run is already in progress for ${workdir}`);
+    }
+    // Approving resumes from the state dir, so a new run must not overwrite it in the meantime.
+    if (isBusy(workdir)) {
+      throw new Error(`A session is awaiting approval for ${workdir}`);
+    }
+
+    if (!fs.existsSync(workdir)) {
+      if (createIfMissing) {
+        fs.mkdirSync(workdir, { recursive: true });
+      } else {
+        throw new Error(`Workdir not found: ${workdir}`);
+      }
+    }
+
+    fs.mkdirSync(stateDir, { recursive: true });
+    session.status = "running";
+    session.startedAt = new Date().toISOString();
+    upsertSession(stateBaseDir, session);
+
+    const entry: LiveSession = { session, child: null, logBuffer: [], eventBuffer: [], clients: [] };
+    live.set(session.id, entry);
+    broadcast(entry, `[milhouse] Starting run…`);
+    launch(entry, false);
+    return entry;
+  }
+
+  function findStopped(id: string): { existing?: LiveSession; session: SessionRecord } {
+    const existing = live.get(id);
+    if (existing?.child) throw new Error("Session is already running");
+
+    const session = existing?.session ?? findSession(stateBaseDir, id);
+    if (!session) throw new Error(`Session not found: ${id}`);
+    assertWritable(session);
+    return { existing, session };
+  }
+
+  function resume(id: string): LiveSession {
+    const { existing, session } = findStopped(id);
+    if (session.status === "succeeded") throw new Error("Session already succeeded");
+    if (session.status === "queued") throw new Error("Session is queued and has not started yet");
+    if (session.status === "rejected") throw new Error("Session was rejected");
+    if (session.status === "awaiting-approval") throw new Error("Session is awaiting approval; approve or reject it");
+    return relaunch(existing, session, "[milhouse] Resuming run…");
+  }
+
+  function approve(id: string, plan?: string): LiveSession {
+    const { existing, session } = findStopped(id);
+    if (session.status !== "awaiting-approval") throw new Error("Session is not awaiting approval");
+    if (plan != null && !plan.trim()) throw new Error("The edited plan is empty");
+    const message = plan != null ? "[milhouse] Plan edited and approved; resuming run…" : "[milhouse] Approved; resuming run…";
+    return relaunch(existing, session, message, () => {
+      if (plan == null) return;
+      const planFile = path.join(session.stateDir, "IMPLEMENTATION_PLAN.md");
+      fs.writeFileSync(planFile, plan.endsWith("\n") ? plan : `${plan}\n`, "utf8");
+    });
+  }
+
+  function reject(id: string, reason?: string): SessionRecord {
+    const { existing, session } = findStopped(id);
+    if (session.status !== "awaiting-approval") throw new Error("Session is not awaiting approval");
+    session.status = "rejected";
+    session.endedAt = new Date().toISOString();
+    session.reason = reason?.trim() || "rejected at review";
+    upsertSession(stateBaseDir, session);
+    if (existing) broadcast(existing, `[milhouse] Rejected: ${session.reason}`);
+    endListeners.forEach((listener) => listener(session));
+    return session;
+  }
+
+  // `beforeLaunch` runs once the session is known to be resumable, e.g. to apply an approved plan edit.
+  function relaunch(
+    existing: LiveSession | undefined,
+    session: SessionRecord,
+    message: string,
+    beforeLaunch?: () => void,
+  ): LiveSession {
+    if (findRunning(session.workdir)) {
+      throw new Error(`A run is already in progress for ${session.workdir}`);
+    }
+
+    // A later session on the same workdir overwrites the shared state dir.
+    const storedThreadId = readStoredThreadId(session.stateDir);
+    if (!storedThreadId) throw new Error("Nothing to resume: no thread id in state dir");
+    if (session.threadId && session.threadId !== storedThreadId) {
+      throw new Error("State dir has been reused by a later session; cannot resume");
+    }
+    beforeLaunch?.();
+
+    session.status = "running";
+    session.endedAt = undefined;
+    session.reason = undefined;
+    session.resumedAt = [...(session.resumedAt ?? []), new Date().toISOString()];
+    upsertSession(stateBaseDir, session);
+
+    const entry: LiveSession = existing ?? { session, child: null, logBuffer: [], eventBuffer: [], clients: [] };
+    live.set(session.id, entry);
+    broadcast(entry, message);
+    launch(entry, true);
+    return entry;
+  }
+
+  function launch(entry: LiveSession, resume: boolean) {
+    const { session } = entry;
+    const { goal, maxIterations, workdir, stateDir, budget, branch } = session;
+    const child = spawnLoopRunner(runtimeRoot, {
+      goal,
+      maxIterations,
+      workdir,
+      stateDir,
+      sessionDir: sessionDataDir(session),
+      resume,
+      budget,
+      priceTable,
+      checkpointBranch: session.gitCheckpoints ? branch : undefined,
+      verifyCommand: session.verifyCommand,
+      verifyTimeoutSec: session.verifyTimeoutSec,
+      vars: session.vars,
+      completionSignal: session.completionSignal,
+      stall: session.stall,
+      policy: session.policy,
+      promptsDir: session.promptsDir,
+      backend: session.backend,
+      record: session.recorded ? recordingPath(session) : undefined,
+      pipeline: session.pipeline,
+      parallel: session.parallel,
+      reviewPlan: session.reviewPlan,
+      pauseEvery: session.pauseEvery,
+    });
+    entry.child = child;
+    latestId = session.id;
+
+    broadcast(entry, `[milhouse] workdir: ${workdir}`);
+    broadcast(entry, `[milhouse] state dir: ${stateDir}`);
+    startListeners.forEach((listener) => listener(session));
+
+    onLines(child.stdout, (l) => {
+      broadcast(entry, l);
+      const threadId = matchThreadId(l);
+      if (threadId) session.threadId = threadId;
+    });
+    onLines(child.stderr, (l) => broadcast(entry, `[stderr] ${l}`));
+    onLines(child.events, (l) => {
+      const event = parseLoopEvent(l);
+      if (event) broadcastEvent(entry, event);
+    });
+    child.on("exit", (code, signal) => {
+      broadcast(entry, `[exit] code=${code ?? "null"} signal=${signal ?? "null"}`);
+      session.status = sessionStatusFromExit(code, signal);
+      session.endedAt = new Date().toISOString();
+      session.reason = readLoopOutcome(stateDir)?.reason;
+      syncSessionFromState(session);
+      upsertSession(stateBaseDir, session);
+      entry.child = null;
+      endListeners.forEach((listener) => listener(session));
+      release(entry);
+    });
+  }
+
+  function rollback(id: string, iteration: number): SessionRecord {
+    const entry = live.get(id);
+    const session = entry?.session ?? findSession(stateBaseDir, id);
+    if (!session) throw new Error(`Session not found: ${id}`);
+    assertWritable(session);
+    if (findRunning(session.workdir)) {
+      throw new Error(`Stop the run in progress for ${session.workdir} before rolling back`);
+    }
+    const sha = rollbackToCheckpoint(session, iteration);
+    upsertSession(stateBaseDir, syncSessionFromState(session));
+    if (entry) broadcast(entry, `[milhouse] Rolled back to iteration ${iteration} (${sha})`);
+    return session;
+  }
+
+  function stop(id: string): boolean {
+    const entry = live.get(id);
+    if (!entry?.child) return false;
+    entry.child.kill();
+    return true;
+  }
+
+  function stopAll() {
+    live.forEach((entry) => entry.child?.kill());
+  }
+
+  // A session awaiting approval still owns its workdir's state dir, so queued and scheduled runs wait for it.
+  function isBusy(workdir: string): boolean {
+    const dir = normalizeWorkdir(workdir);
+    if (findRunning(dir)) return true;
+    // Imported records carry another machine's workdir and can never be approved here.
+    return readSessions(stateBaseDir).some((s) => s.workdir === dir && s.status === "awaiting-approval" && !s.importedAt);
+  }
+
+  function onSessionStart(listener: (session: SessionRecord) => void) {
+    startListeners.push(listener);
+  }
+
+  function onSessionEnd(listener: (session: SessionRecord) => void) {
+    endListeners.push(listener);
+  }
+
+  function get(id: string): LiveSession | undefined {
+    return live.get(id);
+  }
+
+  function latest(): LiveSession | undefined {
+    return latestId ? live.get(latestId) : undefined;
+  }
+
+  // Only runs in progress; finished ones linger just for the clients still streaming them.
+  function list(): LiveSession[] {
+    return [...live.values()].filter((entry) => entry.child);
+  }
+
+  function subscribe(id: string, req: express.Request, res: express.Response): boolean {
+    const entry = live.get(id);
+    if (!entry) return false;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const clientId = randomUUID();
+    entry.clients.push({ id: clientId, res });
+    entry.logBuffer.forEach((line) => res.write(`data: ${line}\n\n`));
+    entry.eventBuffer.forEach((event) => res.write(formatEvent(event)));
+    req.on("close", () => {
+      const idx = entry.clients.findIndex((c) => c.id === clientId);
+      if (idx >= 0) entry.clients.splice(idx, 1);
+      release(entry);
+    });
+    return true;
+  }
+
+  return {
+    start,
+    prepare,
+    startRecord,
+    isBusy,
+    onSessionStart,
+    onSessionEnd,
+    resume,
+    approve,
+    reject,
+    rollback,
+    stop,
+    stopAll,
+    get,
+    latest,
+    list,
+    subscribe,
+    broadcastAll,
+  };
+}